@@ -1,4 +1,31 @@
 import { defineConfig } from 'cypress'
+import * as path from 'path'
+import {
+  applyLocatorUpdates,
+  formatLocatorEdits,
+  locateHealCalls,
+  mergeIntoLocatorStore,
+  queueHealReview,
+  readCalibration,
+  readHealReviews,
+  readLocatorStore,
+  writeHtmlReport,
+  writeReportFile,
+} from './cypress/plugins/self-healing'
+import { resolveConfig } from './cypress/support/self-healing/config'
+import {
+  formatBudgetBreaches,
+  HealingBudgetPolicy,
+} from './cypress/support/self-healing/healing-budget'
+import { healingReporter } from './cypress/support/self-healing/healing-reporter'
+import {
+  BudgetBreach,
+  HealingEvent,
+  HealingReport,
+  HealReview,
+  HealSnapshot,
+  LocatorUpdate,
+} from './cypress/support/self-healing/types'
 
 export default defineConfig({
   e2e: {
@@ -14,12 +41,49 @@ export default defineConfig({
       selfHealing: {
         enabled: true,
         confidenceThreshold: 0.6,
-        maxAlternatives: 5,
+        autoAcceptThreshold: 0.8,
+        maxAlternatives: 12,
         reportPath: 'cypress/reports/healing-report.json',
         autoUpdateLocators: false,
+        healingGracePeriod: 1000,
+        autoUpdateMode: 'patch',
+        autoUpdatePatchPath: 'cypress/reports/locator-updates.patch',
+        storePath: 'cypress/healing/locator-store.json',
+        storeHistoryLimit: 500,
+        htmlReportPath: 'cypress/reports/healing-report.html',
+        junitReportPath: 'cypress/reports/healing-junit.xml',
+        sarifReportPath: 'cypress/reports/healing.sarif',
+        ambiguityMargin: 0.05,
+        ambiguousHeals: 'reject',
+        strictMode: false,
+        healingBudget: {
+          maxHealsPerElement: 3,
+          confidenceFloor: 0.7,
+          forbiddenStrategies: ['class', 'similarity'],
+        },
+        autoCapture: {
+          enabled: false,
+          allow: [],
+          deny: [],
+        },
       },
     },
     setupNodeEvents(on, config) {
+      const selfHealing = resolveConfig(config.env.selfHealing)
+      // The browser can't read files, so the calibration is handed over through env
+      config.env.selfHealingCalibration = readCalibration(
+        path.join(__dirname, selfHealing.calibrationPath)
+      )
+      // Recorded with fingerprint versions; pass --env selfHealingRunId=<CI run id> to use your own
+      config.env.selfHealingRunId = config.env.selfHealingRunId || new Date().toISOString()
+      const storePath = path.join(__dirname, selfHealing.storePath)
+      const reviewQueuePath = path.join(__dirname, selfHealing.reviewQueuePath)
+      const locatorUpdates: LocatorUpdate[] = []
+      const healSnapshots: HealSnapshot[] = []
+      const runEvents: HealingEvent[] = []
+      const budgetPolicy = new HealingBudgetPolicy(selfHealing.healingBudget)
+      const reportedBreaches = new Set<string>()
+
       on('task', {
         logHealingEvent(event) {
           console.log('\n🔧 SELF-HEALING EVENT:')
@@ -27,13 +91,27 @@ export default defineConfig({
           console.log(`   Original Locator: ${event.originalLocator}`)
           console.log(`   Healed Locator: ${event.healedLocator}`)
           console.log(`   Confidence: ${(event.confidence * 100).toFixed(1)}%`)
-          console.log(`   Strategy: ${event.strategy}\n`)
+          console.log(`   Strategy: ${event.strategy}`)
+          console.log(`   Case: ${event.primaryMatch} (${event.primaryMatches} primary matches)`)
+          if (event.frame?.length) {
+            console.log(`   Frame: ${event.frame.join(' › ')}`)
+          }
+          if (event.ambiguous) {
+            console.log('   ⚠️  Ambiguous: another candidate scored almost as high')
+          }
+          if (event.pendingReview) {
+            console.log('   ⏳ Pending review: below the auto-accept threshold')
+          }
+          console.log('')
           return null
         },
-        saveHealingReport(report) {
+        saveHealingReport(report: HealingReport) {
+          // Each spec saves its own report; CI reports cover the whole run
+          runEvents.push(...report.events)
+
           const fs = require('fs')
           const path = require('path')
-          const reportPath = path.join(__dirname, 'cypress/reports/healing-report.json')
+          const reportPath = path.join(__dirname, selfHealing.reportPath)
           const dir = path.dirname(reportPath)
           
           if (!fs.existsSync(dir)) {
@@ -44,6 +122,89 @@ export default defineConfig({
           console.log(`📊 Healing report saved to: ${reportPath}`)
           return null
         },
+        loadLocatorStore() {
+          return readLocatorStore(storePath)
+        },
+        async saveLocatorStore(changes) {
+          await mergeIntoLocatorStore(storePath, changes, selfHealing)
+          return null
+        },
+        loadHealReviews() {
+          return readHealReviews(reviewQueuePath)
+        },
+        async queueHealReview(review: Omit<HealReview, 'id'>) {
+          await queueHealReview(reviewQueuePath, review)
+          return null
+        },
+        queueLocatorUpdate(update: LocatorUpdate) {
+          locatorUpdates.push(update)
+          return null
+        },
+        recordHealSnapshot(snapshot: HealSnapshot) {
+          healSnapshots.push(snapshot)
+          return null
+        },
+        // Each breach is returned once: to the spec that caused it, or first crossed a run budget
+        checkHealingBudget(testFile: string): BudgetBreach[] {
+          const breaches = budgetPolicy
+            .evaluate(runEvents)
+            .filter((breach) => !breach.testFile || breach.testFile === testFile)
+            .filter((breach) => !reportedBreaches.has(breach.id))
+
+          breaches.forEach((breach) => reportedBreaches.add(breach.id))
+          return breaches
+        },
+      })
+
+      on('after:run', () => {
+        const htmlReportPath = path.join(__dirname, selfHealing.htmlReportPath)
+        writeHtmlReport(htmlReportPath, healSnapshots)
+        console.log(`📊 HTML healing report saved to: ${htmlReportPath}`)
+
+        const events = locateHealCalls(__dirname, runEvents)
+        writeReportFile(
+          path.join(__dirname, selfHealing.junitReportPath),
+          healingReporter.generateJUnitReport(events)
+        )
+        writeReportFile(
+          path.join(__dirname, selfHealing.sarifReportPath),
+          JSON.stringify(healingReporter.generateSarifReport(events), null, 2)
+        )
+        console.log(
+          `📊 JUnit and SARIF healing reports saved to: ${selfHealing.junitReportPath}, ${selfHealing.sarifReportPath}`
+        )
+
+        if (budgetPolicy.isEnabled()) {
+          const breaches = budgetPolicy.evaluate(runEvents)
+          if (breaches.length === 0) {
+            console.log(`✅ ${runEvents.length} heals, within the healing budget`)
+          } else {
+            const outcome = selfHealing.strictMode
+              ? 'the specs that breached it failed'
+              : 'strictMode is off, so no spec failed'
+            console.log(`\n❌ Healing budget exceeded (${outcome}):`)
+            console.log(formatBudgetBreaches(breaches))
+          }
+        }
+
+        const pending = readHealReviews(reviewQueuePath).filter((r) => r.status === 'pending')
+        if (pending.length > 0) {
+          console.log(
+            `⏳ ${pending.length} heals awaiting review: npm run healing:review -- --accept <id> | --reject <id>`
+          )
+        }
+
+        if (locatorUpdates.length === 0) {
+          return
+        }
+
+        const result = applyLocatorUpdates(
+          __dirname,
+          locatorUpdates,
+          selfHealing.autoUpdateMode,
+          selfHealing.autoUpdatePatchPath
+        )
+        console.log(formatLocatorEdits(result, selfHealing.autoUpdateMode))
       })
       return config
     },
@@ -0,0 +1,204 @@
+/**
+ * Auto-Capture Unit Tests
+ *
+ * Plain cy.get() and cy.contains() calls are only fingerprinted when
+ * autoCapture is enabled and the allow and deny lists let them through,
+ * and are healed within their scope once they find nothing.
+ */
+
+import {
+  autoCaptureName,
+  containsLocator,
+  expectsNonExistence,
+  frameworkQueryOptions,
+  HealingContext,
+  locatorStore,
+  QueuedCommand,
+  SelfHealingEngine,
+  shouldAutoCapture,
+} from '../support/self-healing'
+import { createFakeRoot } from '../support/test-helpers'
+
+describe('Auto-capture', () => {
+  it('should only capture calls when enabled', () => {
+    expect(shouldAutoCapture('#login-btn', {})).to.equal(false)
+    expect(shouldAutoCapture('#login-btn', { enabled: true })).to.equal(true)
+  })
+
+  it('should apply the allow list before the deny list', () => {
+    const config = { enabled: true, allow: ['^#', 'contains\\('], deny: ['spinner'] }
+
+    expect(shouldAutoCapture('#login-btn', config)).to.equal(true)
+    expect(shouldAutoCapture('contains("Save")', config)).to.equal(true)
+    expect(shouldAutoCapture('.login-btn', config)).to.equal(false)
+    expect(shouldAutoCapture('#loading-spinner', config)).to.equal(false)
+  })
+
+  it("should skip aliases and the framework's own queries", () => {
+    const config = { enabled: true }
+
+    expect(shouldAutoCapture('@loginButton', config)).to.equal(false)
+    expect(shouldAutoCapture('#login-btn', config, { includeShadowDom: true })).to.equal(true)
+    expect(
+      shouldAutoCapture('#login-btn', config, frameworkQueryOptions({ includeShadowDom: true }))
+    ).to.equal(false)
+  })
+
+  it('should derive fingerprint names and locators from the call', () => {
+    expect(
+      autoCaptureName('cypress/e2e/login.cy.ts', ['Login', 'should log in'], '#login-btn')
+    ).to.equal('cypress/e2e/login.cy.ts › Login › should log in › #login-btn')
+    expect(containsLocator(['Save'])).to.equal('contains("Save")')
+    expect(containsLocator(['Save', { timeout: 500 }])).to.equal('contains("Save")')
+    expect(containsLocator(['button', /save/i])).to.equal('contains(button, /save/i)')
+    expect(containsLocator([42])).to.equal('contains(42)')
+  })
+})
+
+describe('Auto-captured queries', () => {
+  const context: HealingContext = {
+    testFile: 'cypress/e2e/checkout.cy.ts',
+    testName: 'should pay',
+    source: 'get',
+  }
+  const engine = new SelfHealingEngine({
+    healingGracePeriod: 0,
+    autoCapture: { enabled: true, allow: ['^#'], deny: ['spinner'] },
+  })
+
+  function queryAll(root: ParentNode, selector: string) {
+    return () => Cypress.$(Array.from(root.querySelectorAll<HTMLElement>(selector)))
+  }
+
+  function captureName(locator: string): string {
+    return autoCaptureName(context.testFile, ['Checkout', 'should pay'], locator)
+  }
+
+  it('should fingerprint the only element a call finds', () => {
+    const root = createFakeRoot('<button id="pay">Pay</button><button id="cancel">Cancel</button>')
+
+    engine.createAutoCaptureQuery(
+      '#pay',
+      captureName('#pay'),
+      context,
+      queryAll(root, '#pay')
+    )(undefined)
+    engine.createAutoCaptureQuery('#pay, #cancel', captureName('both'), context, () =>
+      queryAll(root, 'button')()
+    )(undefined)
+
+    expect(locatorStore.getFingerprint(captureName('#pay'))?.attributes.text).to.equal('Pay')
+    expect(locatorStore.hasFingerprint(captureName('both'))).to.equal(false)
+  })
+
+  it('should leave the calls the allow and deny lists filter out alone', () => {
+    const root = createFakeRoot('<div id="spinner"></div><div class="spinner"></div>')
+    const denied = queryAll(root, '#spinner')
+    const unlisted = queryAll(root, '.spinner')
+    const internal = queryAll(root, '#spinner')
+
+    expect(engine.createAutoCaptureQuery('#spinner', 'denied', context, denied)).to.equal(denied)
+    expect(engine.createAutoCaptureQuery('.spinner', 'unlisted', context, unlisted)).to.equal(
+      unlisted
+    )
+    expect(
+      engine.createAutoCaptureQuery(
+        '#spinner',
+        'internal',
+        context,
+        internal,
+        () => null,
+        frameworkQueryOptions({})
+      )
+    ).to.equal(internal)
+  })
+
+  it('should heal a call that finds nothing within its scope', () => {
+    const root = createFakeRoot(
+      '<form id="billing"><button id="save" class="primary">Save</button></form>' +
+        '<form id="shipping"><button class="primary">Save</button></form>'
+    )
+    const billing = root.getElementById('billing') as HTMLElement
+    const button = billing.querySelector('button') as HTMLElement
+    const name = captureName('#save')
+    // Each command builds its own query
+    const saveQuery = () =>
+      engine.createAutoCaptureQuery(
+        '#save',
+        name,
+        context,
+        queryAll(billing, '#save'),
+        () => billing
+      )
+
+    saveQuery()(undefined)
+    button.id = 'save-billing'
+    const query = saveQuery()
+
+    expect(query(undefined)[0]).to.equal(button)
+    expect(locatorStore.getHealingEvents().find((event) => event.elementName === name)).to.include({
+      originalLocator: '#save',
+      source: 'get',
+    })
+
+    // The shipping form's button would do on the whole page
+    button.remove()
+    expect(query(undefined)).to.have.length(0)
+  })
+  it('should not heal an element the same command already found', () => {
+    const root = createFakeRoot(
+      '<div id="spinner" class="loading">Loading</div><div class="loading">Loading</div>'
+    )
+    const name = captureName('#spinner')
+    const query = engine.createAutoCaptureQuery(
+      '#spinner',
+      name,
+      context,
+      queryAll(root, '#spinner')
+    )
+
+    expect(query(undefined)).to.have.length(1)
+    root.getElementById('spinner')?.remove()
+
+    // Past the grace period, the look-alike must not turn should('not.exist') into a failure
+    expect(query(undefined)).to.have.length(0)
+    expect(locatorStore.getHealingEvents().some((event) => event.elementName === name)).to.equal(
+      false
+    )
+  })
+})
+
+describe('expectsNonExistence', () => {
+  // Commands as Cypress queues them, each linked to the next
+  function chain(...commands: Array<{ type: string; args?: unknown[] }>): QueuedCommand {
+    const [{ type, args = [] }, ...rest] = commands
+    const attributes = { type, name: type, args, next: rest.length ? chain(...rest) : undefined }
+    return { get: (key: keyof typeof attributes) => attributes[key] } as QueuedCommand
+  }
+
+  it('should find a not.exist assertion among the chained ones', () => {
+    expect(
+      expectsNonExistence(
+        chain(
+          { type: 'query' },
+          { type: 'assertion', args: ['have.class', 'loading'] },
+          { type: 'assertion', args: ['not.exist'] }
+        )
+      )
+    ).to.equal(true)
+  })
+
+  it('should only look at the assertions chained to the command', () => {
+    expect(expectsNonExistence(chain({ type: 'query' }))).to.equal(false)
+    expect(
+      expectsNonExistence(
+        chain(
+          { type: 'query' },
+          { type: 'assertion', args: ['be.visible'] },
+          { type: 'parent' },
+          { type: 'assertion', args: ['not.exist'] }
+        )
+      )
+    ).to.equal(false)
+  })
+})
@@ -88,12 +88,14 @@ describe('Broken Locator Recovery', () => {
        * 2. data-cy
        * 3. id
        * 4. aria-label
-       * 5. name
-       * 6. placeholder
-       * 7. role
-       * 8. text content
-       * 9. class
-       * 10. contextual CSS
+       * 5. label
+       * 6. name
+       * 7. placeholder
+       * 8. role
+       * 9. text content
+       * 10. relative XPath
+       * 11. class
+       * 12. contextual CSS
        */
 
       // Register element
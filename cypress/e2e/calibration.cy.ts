@@ -0,0 +1,186 @@
+/**
+ * Calibration Unit Tests
+ *
+ * Feature weights and the probability mapping are fitted to heals and the
+ * runner-ups they beat, so confidences read as the chance a heal is right.
+ */
+
+import {
+  calibrateScoring,
+  collectCalibrationSamples,
+  fitLogisticRegression,
+} from '../plugins/self-healing/calibration'
+import {
+  BUILT_IN_FEATURE_NAMES,
+  FeatureScore,
+  HealingAttempt,
+  LocatorStoreSnapshot,
+} from '../support/self-healing'
+import { healingEvent } from '../support/test-helpers'
+
+function breakdown(similarities: Record<string, number>): FeatureScore[] {
+  return Object.entries(similarities).map(([feature, similarity]) => ({
+    feature,
+    weight: 1,
+    similarity,
+    contribution: similarity,
+  }))
+}
+
+/**
+ * A similarity heal of `elementName` whose attempt beat one runner-up
+ */
+function scoredHeal(
+  elementName: string,
+  healed: Record<string, number>,
+  runnerUp: Record<string, number>
+): Pick<LocatorStoreSnapshot, 'healingEvents' | 'healingAttempts'> {
+  const timestamp = new Date(Date.UTC(2024, 0, 1, 0, 0, elementName.length))
+  const event = healingEvent({
+    timestamp,
+    elementName,
+    healedLocator: `#${elementName}`,
+    strategy: 'similarity',
+    breakdown: breakdown(healed),
+  })
+  const attempt: HealingAttempt = {
+    timestamp,
+    elementName,
+    originalLocator: event.originalLocator,
+    outcome: 'healed',
+    strategy: 'similarity',
+    bestConfidence: event.confidence,
+    threshold: 0.7,
+    runnerUps: [
+      {
+        description: 'div',
+        confidence: 0.4,
+        strategy: 'similarity',
+        breakdown: breakdown(runnerUp),
+      },
+    ],
+    testFile: event.testFile,
+    testName: event.testName,
+  }
+  return { healingEvents: [event], healingAttempts: [attempt] }
+}
+
+function storeOf(heals: Array<ReturnType<typeof scoredHeal>>): LocatorStoreSnapshot {
+  return {
+    fingerprints: [],
+    healingEvents: heals.flatMap((heal) => heal.healingEvents),
+    healingAttempts: heals.flatMap((heal) => heal.healingAttempts || []),
+  }
+}
+
+// The healed element keeps its text and the runner-up doesn't; class names tell nothing apart
+const separableStore = storeOf(
+  Array.from({ length: 12 }, (_, index) =>
+    scoredHeal(
+      `element${'x'.repeat(index)}`,
+      { text: 1, className: 0.5 },
+      { text: 0, className: 0.5 }
+    )
+  )
+)
+
+describe('fitLogisticRegression', () => {
+  it('should separate outcomes along the feature that tells them apart', () => {
+    const rows = [[-0.5], [-0.4], [-0.3], [0.3], [0.4], [0.5]]
+    const outcomes = [0, 0, 0, 1, 1, 1]
+
+    const { coefficients, intercept } = fitLogisticRegression(rows, outcomes)
+    const predict = (row: number[]) => 1 / (1 + Math.exp(-(intercept + coefficients[0] * row[0])))
+
+    expect(coefficients[0]).to.be.greaterThan(0)
+    rows.forEach((row, index) => {
+      expect(Math.round(predict(row))).to.equal(outcomes[index])
+    })
+  })
+
+  it('should fit nothing without rows', () => {
+    expect(fitLogisticRegression([], [])).to.deep.equal({ coefficients: [], intercept: 0 })
+  })
+})
+
+describe('collectCalibrationSamples', () => {
+  const store = storeOf([scoredHeal('save', { text: 1 }, { text: 0.2 })])
+
+  it('should count an unlabelled heal as correct and its runner-ups as wrong', () => {
+    expect(collectCalibrationSamples(store, [])).to.deep.equal([
+      { similarities: { text: 1 }, correct: true },
+      { similarities: { text: 0.2 }, correct: false },
+    ])
+  })
+
+  it('should leave the runner-ups of a heal labelled wrong out', () => {
+    const labels = [{ elementName: 'save', healedLocator: '#save', correct: false }]
+
+    expect(collectCalibrationSamples(store, labels)).to.deep.equal([
+      { similarities: { text: 1 }, correct: false },
+    ])
+  })
+
+  it('should find no samples in an empty store', () => {
+    expect(collectCalibrationSamples(storeOf([]), [])).to.deep.equal([])
+  })
+})
+
+describe('calibrateScoring', () => {
+  it('should refuse to calibrate an empty store', () => {
+    expect(() => calibrateScoring(storeOf([]), [])).to.throw('Not enough healing history')
+  })
+
+  it('should refuse to calibrate when every candidate was correct', () => {
+    const heals = storeOf(
+      Array.from({ length: 20 }, (_, index) => scoredHeal(`e${'x'.repeat(index)}`, { text: 1 }, {}))
+    ).healingEvents
+
+    expect(() => calibrateScoring({ fingerprints: [], healingEvents: heals }, [])).to.throw(
+      '20 correct'
+    )
+  })
+
+  it('should weigh the separating feature and turn off the others', () => {
+    const calibration = calibrateScoring(separableStore, [])
+    const weights = calibration.featureWeights
+
+    expect(calibration.samples).to.equal(24)
+    expect(Object.keys(weights)).to.include.members(BUILT_IN_FEATURE_NAMES)
+    expect(weights.text).to.equal(1)
+    expect(weights.className).to.equal(0)
+    expect(weights.ariaLabel).to.equal(0)
+    expect(calibration.platt.slope).to.be.greaterThan(0)
+  })
+  describe('strategy confidence', () => {
+    const classHeals = Array.from({ length: 20 }, (_, index) =>
+      healingEvent({
+        elementName: `class${index}`,
+        healedLocator: '.btn-primary',
+        strategy: 'class',
+        confidence: 0.5,
+      })
+    )
+    const store = {
+      ...separableStore,
+      healingEvents: [...separableStore.healingEvents, ...classHeals],
+    }
+
+    it('should leave a strategy without labelled heals alone', () => {
+      expect(calibrateScoring(store, []).strategyConfidence).to.deep.equal({})
+    })
+
+    it('should only move a strategy by its labelled heals', () => {
+      const labels = ['class0', 'class1'].map((elementName) => ({
+        elementName,
+        healedLocator: '.btn-primary',
+        correct: false,
+      }))
+
+      // Two wrong verdicts, smoothed towards the 0.5 the heals had
+      expect(calibrateScoring(store, labels).strategyConfidence.class).to.equal(
+        Math.round(((5 * 0.5) / 7) * 10000) / 10000
+      )
+    })
+  })
+})
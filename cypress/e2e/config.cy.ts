@@ -0,0 +1,85 @@
+/**
+ * Configuration Validation Tests
+ *
+ * env.selfHealing and per-call cy.heal() options are validated
+ * when loaded, so typos fail loudly instead of being ignored.
+ */
+
+import { DEFAULT_CONFIG, resolveConfig, validateHealOptions } from '../support/self-healing'
+
+describe('Self-Healing Configuration', () => {
+  describe('env.selfHealing', () => {
+    it('should fill in defaults for missing options', () => {
+      expect(resolveConfig(undefined)).to.deep.equal(DEFAULT_CONFIG)
+      expect(resolveConfig({ confidenceThreshold: 0.8 }).confidenceThreshold).to.equal(0.8)
+      expect(resolveConfig({ confidenceThreshold: 0.8 }).maxAlternatives).to.equal(12)
+    })
+
+    it('should reject invalid values', () => {
+      expect(() => resolveConfig({ confidenceThreshold: 60 })).to.throw(
+        '"confidenceThreshold" must be a number between 0 and 1'
+      )
+      expect(() => resolveConfig({ maxAlternatives: 0 })).to.throw('a positive integer')
+      expect(() => resolveConfig({ autoUpdateMode: 'write' })).to.throw('apply | patch | dry-run')
+      expect(() => resolveConfig({ ambiguousHeals: 'warn' })).to.throw('reject | flag')
+      expect(() => resolveConfig({ scoringWeights: { label: 0.3 } })).to.throw('"scoringWeights"')
+    })
+
+    it('should reject unknown options', () => {
+      expect(() => resolveConfig({ confidenceTreshold: 0.8 })).to.throw(
+        'unknown option "confidenceTreshold"'
+      )
+    })
+
+    it('should validate the healing budget limits', () => {
+      const healingBudget = { maxHeals: 0, forbiddenStrategies: ['class'] }
+      expect(resolveConfig({ healingBudget }).healingBudget).to.deep.equal(healingBudget)
+      expect(() => resolveConfig({ healingBudget: { maxHeals: 1.5 } })).to.throw(
+        'env.selfHealing.healingBudget: "maxHeals" must be an integer >= 0'
+      )
+      expect(() => resolveConfig({ healingBudget: { maxHealsPerTest: 1 } })).to.throw(
+        'unknown option "maxHealsPerTest"'
+      )
+    })
+
+    it('should reject an auto-accept threshold set below the confidence threshold', () => {
+      expect(() => resolveConfig({ confidenceThreshold: 0.9, autoAcceptThreshold: 0.85 })).to.throw(
+        '"autoAcceptThreshold" (0.85) must be at least "confidenceThreshold" (0.9)'
+      )
+      expect(resolveConfig({ confidenceThreshold: 0.9, autoAcceptThreshold: 0.9 })).to.include({
+        autoAcceptThreshold: 0.9,
+      })
+    })
+
+    it('should raise the default auto-accept threshold to the confidence threshold', () => {
+      expect(resolveConfig({ confidenceThreshold: 0.9 })).to.include({ autoAcceptThreshold: 0.9 })
+      expect(resolveConfig({ confidenceThreshold: 0.5 })).to.include({ autoAcceptThreshold: 0.8 })
+    })
+
+    it('should validate the auto-capture lists', () => {
+      const autoCapture = { enabled: true, allow: ['^#'], deny: ['spinner'] }
+      expect(resolveConfig({ autoCapture }).autoCapture).to.deep.equal(autoCapture)
+      expect(() => resolveConfig({ autoCapture: { deny: ['(unclosed'] } })).to.throw(
+        'env.selfHealing.autoCapture: "deny" must be an array of regular expressions'
+      )
+    })
+  })
+
+  describe('cy.heal() options', () => {
+    it('should accept per-call overrides', () => {
+      const options = { timeout: 2000, confidenceThreshold: 0.9, strategies: ['id'], enabled: true }
+      expect(validateHealOptions(options)).to.deep.equal(options)
+    })
+
+    it('should reject unknown strategies', () => {
+      expect(() => validateHealOptions({ strategies: ['visual'] })).to.throw('"strategies"')
+    })
+
+    it('should accept a frame locator or a chain of them', () => {
+      expect(validateHealOptions({ frame: '#payment-frame' })).to.deep.equal({
+        frame: '#payment-frame',
+      })
+      expect(() => validateHealOptions({ frame: [] })).to.throw('"frame"')
+    })
+  })
+})
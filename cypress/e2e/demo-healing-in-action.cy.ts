@@ -4,12 +4,15 @@
  * This test file demonstrates the self-healing mechanism
  * by intentionally using BROKEN locators after registering elements.
  * 
- * IMPORTANT: Register and heal must happen in the SAME test
- * because fingerprints are stored in browser memory.
+ * Fingerprints are persisted to the locator store file after each
+ * test, so an element registered in one test (or one run) can be
+ * healed in a later one.
  * 
  * Watch the Cypress log for "🔧 SELF-HEALED" messages!
  */
 
+import { ElementFingerprint, locatorStore, selfHealingEngine } from '../support/self-healing'
+
 describe('🔧 Self-Healing Demo - See It In Action!', () => {
   beforeEach(() => {
     cy.visit('/')
@@ -136,4 +139,28 @@ describe('🔧 Self-Healing Demo - See It In Action!', () => {
     cy.log('   Check the Cypress log for "🔧 SELF-HEALED" entries!')
     cy.log('═══════════════════════════════════════════════════════════')
   })
+
+  describe('💾 Persistent fingerprints', () => {
+    const { storePath } = selfHealingEngine.getConfig()
+
+    it('📝 registers the login button in one test', function() {
+      cy.registerForHealing('#login-btn', 'persistedLoginButton')
+    })
+
+    it('🔧 heals the login button from the store file in a later test', function() {
+      // Flushed by the afterEach hook of the previous test
+      cy.readFile(storePath)
+        .its('fingerprints')
+        .should((fingerprints: ElementFingerprint[]) => {
+          expect(fingerprints.map((fp) => fp.name)).to.include('persistedLoginButton')
+        })
+
+      cy.log('🧹 Forgetting in-memory fingerprints, reloading the store file')
+      cy.then(() => locatorStore.clearFingerprints())
+      cy.loadLocatorStore()
+
+      cy.heal('#persisted-submit-btn', 'persistedLoginButton')  // ❌ Wrong!
+        .should('have.attr', 'data-testid', 'login-button')
+    })
+  })
 })
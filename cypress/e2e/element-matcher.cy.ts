@@ -0,0 +1,639 @@
+/**
+ * ElementMatcher Unit Tests
+ *
+ * These tests run the matcher against a detached fake DOM root
+ * and make sure it never reaches into the spec runner's own document.
+ */
+
+import {
+  captureElementFingerprint,
+  DEFAULT_CONFIG,
+  describeElement,
+  elementPath,
+  ElementMatcher,
+  evaluateXPath,
+  getAccessibleName,
+  getAccessibleState,
+  getLabelText,
+  getRole,
+  isXPathLocator,
+  toXPathLiteral,
+} from '../support/self-healing'
+import { createFakeRoot } from '../support/test-helpers'
+
+describe('ElementMatcher', () => {
+  const matcher = new ElementMatcher(0.6)
+  let decoy: HTMLButtonElement
+
+  beforeEach(() => {
+    // Identical button in the spec runner's document that must never be matched
+    decoy = document.createElement('button')
+    decoy.setAttribute('data-testid', 'login-button')
+    decoy.setAttribute('aria-label', 'Login to your account')
+    decoy.textContent = 'Login'
+    document.body.appendChild(decoy)
+  })
+
+  afterEach(() => {
+    decoy.remove()
+  })
+
+  describe('Search root', () => {
+    it('should resolve alternative locators inside the given root only', () => {
+      const root = createFakeRoot(
+        '<button id="login-btn" data-testid="login-button">Login</button>'
+      )
+      const fingerprint = captureElementFingerprint(
+        root.getElementById('login-btn') as HTMLElement,
+        'loginButton',
+        '#login-btn'
+      )
+      root.getElementById('login-btn')?.removeAttribute('id')
+
+      const result = matcher.findElement(fingerprint, root)
+
+      expect(result.element).to.not.equal(null)
+      expect(result.element?.ownerDocument).to.equal(root)
+      expect(result.element).to.not.equal(decoy)
+    })
+
+    it('should run similarity search inside the given root only', () => {
+      const registered = createFakeRoot(
+        '<button aria-label="Login to your account" data-testid="login-button">Login</button>'
+      )
+      const fingerprint = captureElementFingerprint(
+        registered.querySelector('button') as HTMLElement,
+        'loginButton',
+        'button'
+      )
+
+      // Nothing in the root resembles the fingerprint, only the decoy does
+      const root = createFakeRoot('<button>Cancel</button>')
+      const result = matcher.findElement({ ...fingerprint, alternativeLocators: [] }, root)
+
+      expect(result.matchedBy).to.equal('similarity')
+      expect(result.element).to.not.equal(decoy)
+    })
+
+    it('should accept an element as root', () => {
+      const doc = createFakeRoot(`
+        <form id="login-form"><button data-testid="submit">Login</button></form>
+        <form id="other-form"><button data-testid="submit">Login</button></form>
+      `)
+      const target = doc.querySelector('#login-form button') as HTMLElement
+      const fingerprint = captureElementFingerprint(target, 'submit', '#login-form button')
+
+      const result = matcher.findElement(fingerprint, doc.getElementById('login-form') as Element)
+
+      expect(result.element).to.equal(target)
+    })
+  })
+
+  describe('Text locators', () => {
+    function textFingerprint(html: string) {
+      const doc = createFakeRoot(html)
+      return captureElementFingerprint(doc.querySelector('button') as HTMLElement, 'btn', 'button')
+    }
+
+    it('should generate a structured text strategy', () => {
+      const fingerprint = textFingerprint('<button>Login</button>')
+      const text = fingerprint.alternativeLocators.find((l) => l.type === 'text')
+
+      expect(text?.text).to.deep.equal({ tagName: 'button', text: 'Login', mode: 'fuzzy' })
+    })
+
+    it('should resolve text strategies without native :contains support', () => {
+      const fingerprint = textFingerprint('<button>Login</button>')
+      const root = createFakeRoot('<button>Cancel</button><button>\n  Login\n</button>')
+
+      // Buttons are found by role first
+      const result = matcher.findElement(fingerprint, root, { strategies: ['text'] })
+
+      expect(result.matchedBy).to.equal('text')
+      expect(result.element?.textContent?.trim()).to.equal('Login')
+      expect(result.attempts.find((a) => a.type === 'text')?.outcome).to.equal('unique')
+    })
+
+    it('should lower confidence for case-insensitive and fuzzy matches', () => {
+      const fingerprint = textFingerprint('<button>Login</button>')
+
+      const textOnly = { strategies: ['text' as const] }
+      const caseResult = matcher.findElement(
+        fingerprint,
+        createFakeRoot('<button>LOGIN</button>'),
+        textOnly
+      )
+      const fuzzyResult = matcher.findElement(
+        fingerprint,
+        createFakeRoot('<button>Log in</button>'),
+        textOnly
+      )
+
+      expect(caseResult.confidence).to.be.closeTo(0.7 * 0.9, 0.001)
+      expect(fuzzyResult.confidence).to.be.closeTo(0.7 * 0.8, 0.001)
+    })
+
+    it('should compare text using each mode', () => {
+      expect(matcher.textMatches(' Login ', 'Login', 'exact')).to.equal(false)
+      expect(matcher.textMatches(' Login ', 'Login', 'trimmed')).to.equal(true)
+      expect(matcher.textMatches('LOGIN', 'Login', 'case-insensitive')).to.equal(true)
+      expect(matcher.textMatches('Log-in', 'Login', 'fuzzy')).to.equal(true)
+      expect(matcher.textMatches('Logout', 'Login', 'fuzzy')).to.equal(false)
+    })
+
+    it('should report invalid selectors instead of swallowing them', () => {
+      const fingerprint = textFingerprint('<button>Login</button>')
+      const legacy = {
+        ...fingerprint,
+        alternativeLocators: [
+          {
+            type: 'text' as const,
+            value: 'button:contains("Login")',
+            priority: 8,
+            confidence: 0.7,
+          },
+        ],
+      }
+
+      const result = matcher.findElement(legacy, createFakeRoot('<button>Login</button>'))
+
+      expect(result.attempts[0].outcome).to.equal('error')
+      expect(result.attempts[0].error).to.be.a('string')
+    })
+  })
+
+  describe('Label locators', () => {
+    const nameOf = (html: string) =>
+      getAccessibleName(createFakeRoot(html).querySelector('input') as HTMLElement)
+
+    it('should compute the accessible name of a form field', () => {
+      expect(nameOf('<label for="email">E-mail</label><input id="email">')).to.equal('E-mail')
+      expect(nameOf('<label>Remember me <input type="checkbox"></label>')).to.equal('Remember me')
+      expect(
+        nameOf(
+          '<span id="l1">Card</span><span id="l2">number</span><input aria-labelledby="l1 l2">'
+        )
+      ).to.equal('Card number')
+      expect(nameOf('<div><span>Coupon</span> <input></div>')).to.equal('Coupon')
+      expect(
+        nameOf('<p>A long paragraph of text that is certainly not a label</p><input>')
+      ).to.equal(undefined)
+    })
+
+    it('should read the label text without aria-label or title', () => {
+      const labelOf = (html: string) =>
+        getLabelText(createFakeRoot(html).querySelector('input') as HTMLElement)
+
+      expect(labelOf('<label for="q">Search</label><input id="q" aria-label="Find">')).to.equal(
+        'Search'
+      )
+      expect(labelOf('<span>Coupon</span><input title="Promo code">')).to.equal('Coupon')
+      expect(labelOf('<input aria-label="Find">')).to.equal(undefined)
+    })
+
+    it('should heal a form field through its label', () => {
+      const registered = createFakeRoot(
+        '<label for="username">Username</label><input id="username" name="user">'
+      )
+      const fingerprint = captureElementFingerprint(
+        registered.getElementById('username') as HTMLElement,
+        'usernameInput',
+        '#username'
+      )
+      const root = createFakeRoot(
+        '<label for="login">Username</label><input id="login" name="login">' +
+          '<label for="secret">Password</label><input id="secret" name="secret">'
+      )
+
+      const result = matcher.findElement(fingerprint, root)
+
+      expect(result.matchedBy).to.equal('label')
+      expect(result.element?.id).to.equal('login')
+    })
+
+    it('should heal through the label text when the aria-label changed too', () => {
+      const registered = createFakeRoot(
+        '<label for="email">Email address</label><input id="email" aria-label="Enter your email">'
+      )
+      const fingerprint = captureElementFingerprint(
+        registered.getElementById('email') as HTMLElement,
+        'emailInput',
+        '#email'
+      )
+      expect(fingerprint.alternativeLocators.find((l) => l.type === 'label')?.value).to.equal(
+        'input labelled "Email address"'
+      )
+
+      const root = createFakeRoot(
+        '<label for="user-email">Email address</label>' +
+          '<input id="user-email" aria-label="Your email">' +
+          '<label for="user-name">Name</label><input id="user-name" aria-label="Your name">'
+      )
+      const result = matcher.findElement(fingerprint, root, { strategies: ['label'] })
+
+      expect(result.matchedBy).to.equal('label')
+      expect(result.element?.id).to.equal('user-email')
+    })
+  })
+
+  describe('Role locators', () => {
+    const first = (html: string) => createFakeRoot(html).body.firstElementChild as HTMLElement
+
+    it('should compute implicit roles, names and state', () => {
+      expect(getRole(first('<button>Save</button>'))).to.equal('button')
+      expect(getRole(first('<input type="submit" value="Send">'))).to.equal('button')
+      expect(getRole(first('<input type="email">'))).to.equal('textbox')
+      expect(getRole(first('<a href="/home">Home</a>'))).to.equal('link')
+      expect(getRole(first('<a>Home</a>'))).to.equal(undefined)
+      expect(getRole(first('<div role="tab">Settings</div>'))).to.equal('tab')
+
+      expect(getAccessibleName(first('<button> Save <b>draft</b></button>'))).to.equal('Save draft')
+      expect(getAccessibleName(first('<input type="submit" value="Send">'))).to.equal('Send')
+      expect(getAccessibleName(first('<img alt="Logo">'))).to.equal('Logo')
+
+      expect(getAccessibleState(first('<input type="checkbox" checked>'))).to.deep.equal({
+        checked: true,
+      })
+      expect(
+        getAccessibleState(first('<div role="checkbox" aria-checked="false"></div>'))
+      ).to.deep.equal({
+        checked: false,
+      })
+      expect(getAccessibleState(first('<button disabled>Save</button>'))).to.deep.equal({
+        disabled: true,
+      })
+    })
+
+    it('should heal a control through its role and name when its tag changes', () => {
+      const registered = createFakeRoot('<button id="save">Save</button>')
+      const fingerprint = captureElementFingerprint(
+        registered.getElementById('save') as HTMLElement,
+        'saveButton',
+        '#save'
+      )
+      expect(fingerprint.alternativeLocators.find((l) => l.type === 'role')?.value).to.equal(
+        `getByRole('button', { name: "Save" })`
+      )
+
+      const root = createFakeRoot(
+        '<div role="button" tabindex="0">Save</div><div role="tab">Save</div><button>Cancel</button>'
+      )
+      const result = matcher.findElement(fingerprint, root)
+
+      expect(result.matchedBy).to.equal('role')
+      expect(result.element?.getAttribute('role')).to.equal('button')
+    })
+
+    it('should prefer the control in the recorded state', () => {
+      const registered = createFakeRoot(
+        '<button id="delete-1">Delete</button><button id="delete-2" disabled>Delete</button>'
+      )
+      const fingerprint = captureElementFingerprint(
+        registered.getElementById('delete-1') as HTMLElement,
+        'deleteButton',
+        '#delete-1'
+      )
+      const root = createFakeRoot(
+        '<button id="remove-2" disabled>Delete</button><button id="remove-1">Delete</button>'
+      )
+
+      const result = matcher.findElement(fingerprint, root)
+
+      expect(result.matchedBy).to.equal('role')
+      expect(result.element?.id).to.equal('remove-1')
+    })
+
+    it('should reach the role strategy of a well-attributed field with the default config', () => {
+      // The demo app's username field, which records a locator for every strategy before role
+      const registered = createFakeRoot(
+        '<label for="username">Username</label>' +
+          '<input type="text" id="username" name="username" data-testid="username-input" ' +
+          'data-cy="username-input" aria-label="Enter your username" placeholder="Enter username">'
+      )
+      const fingerprint = captureElementFingerprint(
+        registered.getElementById('username') as HTMLElement,
+        'usernameInput',
+        '#username'
+      )
+      const root = createFakeRoot(
+        '<label for="login">Login</label><span id="login-hint">Enter your username</span>' +
+          '<input type="text" id="login" name="login" aria-labelledby="login-hint">' +
+          '<label for="secret">Password</label><input type="password" id="secret">'
+      )
+
+      const result = new ElementMatcher(
+        DEFAULT_CONFIG.confidenceThreshold,
+        DEFAULT_CONFIG.maxAlternatives
+      ).findElement(fingerprint, root)
+
+      expect(result.matchedBy).to.equal('role')
+      expect(result.element?.id).to.equal('login')
+    })
+  })
+
+  describe('XPath locators', () => {
+    it('should record a relative XPath anchored on the nearest identifiable ancestor', () => {
+      const doc = createFakeRoot(
+        '<form id="login-form"><div><button type="submit">Login</button></div></form>'
+      )
+      const fingerprint = captureElementFingerprint(
+        doc.querySelector('button') as HTMLElement,
+        'loginButton',
+        'button'
+      )
+      const xpath = fingerprint.alternativeLocators.find((l) => l.type === 'xpath')
+
+      expect(xpath?.value).to.equal(
+        '//*[@id="login-form"]//button[normalize-space()="Login"][@type="submit"]'
+      )
+    })
+
+    it('should evaluate XPath strategies against the root', () => {
+      const doc = createFakeRoot(
+        '<form data-testid="login-form"><button class="a b">Login</button></form>'
+      )
+      const target = doc.querySelector('button') as HTMLElement
+      const fingerprint = captureElementFingerprint(target, 'loginButton', 'button')
+
+      const xpathOnly = {
+        ...fingerprint,
+        alternativeLocators: fingerprint.alternativeLocators.filter((l) => l.type === 'xpath'),
+      }
+      const result = matcher.findElement(xpathOnly, doc)
+
+      expect(result.matchedBy).to.equal('xpath')
+      expect(result.element).to.equal(target)
+    })
+
+    it('should evaluate XPath on a page with shadow hosts', () => {
+      // The demo page's <my-button> design-system components
+      const doc = createFakeRoot(
+        '<form id="login-form"><button type="submit">Login</button></form><my-button></my-button>'
+      )
+      const host = doc.querySelector('my-button') as HTMLElement
+      host.attachShadow({ mode: 'open' }).innerHTML = '<button class="ds-button">Save</button>'
+      const login = doc.querySelector('button') as HTMLElement
+
+      expect(evaluateXPath('//*[@id="login-form"]//button', doc)).to.deep.equal([login])
+
+      const fingerprint = captureElementFingerprint(login, 'loginButton', 'button')
+      const result = matcher.findElement(fingerprint, doc, { strategies: ['xpath'] })
+
+      expect(result.attempts[0]).to.include({ type: 'xpath', outcome: 'unique' })
+      expect(result.element).to.equal(login)
+    })
+
+    it('should detect XPath primary locators', () => {
+      expect(isXPathLocator('//button')).to.equal(true)
+      expect(isXPathLocator('(//li)[2]')).to.equal(true)
+      expect(isXPathLocator('./span')).to.equal(true)
+      expect(isXPathLocator('#login-btn')).to.equal(false)
+      expect(isXPathLocator('button:contains("Login")')).to.equal(false)
+    })
+
+    it('should quote literals containing both quote styles', () => {
+      expect(toXPathLiteral('Say "hi"')).to.equal(`'Say "hi"'`)
+      expect(toXPathLiteral(`It's "ok"`)).to.equal(`concat("It's ", '"', "ok", '"', "")`)
+    })
+  })
+
+  describe('Match options', () => {
+    const html =
+      '<button id="login-btn" data-testid="login-button" aria-label="Login">Login</button>'
+
+    it('should only use the allowed strategies', () => {
+      const doc = createFakeRoot(html)
+      const fingerprint = captureElementFingerprint(
+        doc.querySelector('button') as HTMLElement,
+        'loginButton',
+        '#login-btn'
+      )
+
+      const result = matcher.findElement(fingerprint, doc, { strategies: ['aria-label'] })
+
+      expect(result.matchedBy).to.equal('aria-label')
+      expect(result.attempts.map((a) => a.type)).to.deep.equal(['aria-label'])
+    })
+
+    it('should never pick excluded candidates', () => {
+      const registered = createFakeRoot('<button id="save">Save</button>')
+      const fingerprint = captureElementFingerprint(
+        registered.getElementById('save') as HTMLElement,
+        'saveButton',
+        '#save'
+      )
+      const root = createFakeRoot(
+        '<button id="rejected">Save</button><button id="other">Save</button>'
+      )
+
+      const result = matcher.findElement(fingerprint, root, {
+        exclude: (element) => element.id === 'rejected',
+      })
+
+      expect(result.element?.id).to.equal('other')
+    })
+
+    it('should skip similarity search when it is not allowed', () => {
+      const doc = createFakeRoot(html)
+      const fingerprint = captureElementFingerprint(
+        doc.querySelector('button') as HTMLElement,
+        'loginButton',
+        '#login-btn'
+      )
+
+      const result = matcher.findElement(fingerprint, createFakeRoot('<button>Login</button>'), {
+        strategies: ['id'],
+      })
+
+      expect(result.element).to.equal(null)
+    })
+
+    it('should pick the best of several primary locator matches', () => {
+      const doc = createFakeRoot(
+        '<form><button aria-label="Login">Login</button><button aria-label="Reset">Reset</button></form>'
+      )
+      const [login, reset] = Array.from(doc.querySelectorAll('button'))
+      const fingerprint = captureElementFingerprint(login, 'loginButton', '#login-btn')
+
+      const result = matcher.pickElement(fingerprint, [reset, login])
+
+      expect(result.element).to.equal(login)
+      expect(result.ambiguous).to.equal(false)
+      expect(result.candidates).to.have.length(2)
+    })
+
+    it('should try at most maxAlternatives locators', () => {
+      const doc = createFakeRoot(html)
+      const fingerprint = captureElementFingerprint(
+        doc.querySelector('button') as HTMLElement,
+        'loginButton',
+        '#login-btn'
+      )
+
+      const result = new ElementMatcher(0.6, 2).findElement(fingerprint, createFakeRoot(''))
+
+      expect(result.attempts).to.have.length(2)
+    })
+  })
+
+  describe('Ambiguity', () => {
+    // The demo app's todo list renders identical Delete buttons
+    const deleteButton = (label: string) =>
+      `<li><button class="delete-btn" data-testid="delete-todo" aria-label="${label}">Delete</button></li>`
+
+    function deleteFingerprint(html: string) {
+      const doc = createFakeRoot(html)
+      return captureElementFingerprint(
+        doc.querySelector('button') as HTMLElement,
+        'deleteTodo',
+        '#delete-first'
+      )
+    }
+
+    it('should flag candidates scoring within the margin as ambiguous', () => {
+      const fingerprint = deleteFingerprint(deleteButton('Delete task'))
+      const root = createFakeRoot(deleteButton('Delete task') + deleteButton('Delete task'))
+
+      const result = matcher.findElement(fingerprint, root)
+
+      expect(result.ambiguous).to.equal(true)
+      expect(result.matchedBy).to.equal('data-testid')
+      expect(result.candidates).to.have.length(2)
+      expect(result.candidates[0].description).to.contain('data-testid="delete-todo"')
+    })
+
+    it('should let a later strategy single out one of the look-alikes', () => {
+      const fingerprint = deleteFingerprint(deleteButton('Delete Buy milk'))
+      const root = createFakeRoot(deleteButton('Delete Walk dog') + deleteButton('Delete Buy milk'))
+
+      const result = matcher.findElement(fingerprint, root)
+
+      expect(result.ambiguous).to.equal(false)
+      expect(result.element?.getAttribute('aria-label')).to.equal('Delete Buy milk')
+    })
+
+    it('should honor the per-call margin', () => {
+      const fingerprint = deleteFingerprint(deleteButton('Delete task'))
+      const root = createFakeRoot(deleteButton('Delete task') + deleteButton('Delete task'))
+
+      const result = matcher.findElement(fingerprint, root, { ambiguityMargin: 0 })
+
+      expect(result.ambiguous).to.equal(false)
+      expect(result.element).to.not.equal(null)
+    })
+  })
+
+  describe('Shadow DOM', () => {
+    // Mirrors the demo app's <my-button>: identical internals in every instance
+    function createDesignSystemRoot(saveTestId = 'ds-save'): Document {
+      const doc = createFakeRoot(`
+        <my-button data-testid="${saveTestId}"></my-button>
+        <my-button data-testid="ds-cancel"></my-button>
+      `)
+      doc.querySelectorAll('my-button').forEach((host, index) => {
+        const label = index === 0 ? 'Save' : 'Cancel'
+        host.attachShadow({ mode: 'open' }).innerHTML =
+          `<button class="ds-button" data-testid="ds-button" aria-label="${label}">${label}</button>`
+      })
+      return doc
+    }
+
+    const innerButton = (doc: Document, index: number) =>
+      doc.querySelectorAll('my-button')[index].shadowRoot?.querySelector('button') as HTMLElement
+
+    it('should record the shadow host chain', () => {
+      const doc = createFakeRoot('<x-toolbar data-testid="toolbar"></x-toolbar>')
+      const toolbar = doc.querySelector('x-toolbar') as HTMLElement
+      toolbar.attachShadow({ mode: 'open' }).innerHTML = '<my-button id="save"></my-button>'
+      const host = toolbar.shadowRoot?.querySelector('my-button') as HTMLElement
+      host.attachShadow({ mode: 'open' }).innerHTML = '<button>Save</button>'
+      const button = host.shadowRoot?.querySelector('button') as HTMLElement
+
+      const fingerprint = captureElementFingerprint(button, 'saveButton', '#save-btn')
+
+      expect(fingerprint.shadowHosts).to.deep.equal([
+        'x-toolbar[data-testid="toolbar"]',
+        'my-button#save',
+      ])
+      expect(describeElement(button)).to.equal(
+        'x-toolbar[data-testid="toolbar"] › my-button#save › button "Save"'
+      )
+    })
+
+    it('should resolve alternative locators inside the recorded shadow host', () => {
+      const doc = createDesignSystemRoot()
+      const save = innerButton(doc, 0)
+      const fingerprint = captureElementFingerprint(save, 'saveButton', '#ds-save-btn')
+
+      const result = matcher.findElement(fingerprint, doc)
+
+      expect(result.element).to.equal(save)
+      expect(result.matchedBy).to.equal('data-testid')
+      expect(result.ambiguous).to.equal(false)
+    })
+
+    it('should search every open shadow tree when the host changed', () => {
+      const fingerprint = captureElementFingerprint(
+        innerButton(createDesignSystemRoot(), 0),
+        'saveButton',
+        '#ds-save-btn'
+      )
+      const doc = createDesignSystemRoot('ds-save-renamed')
+
+      const result = matcher.findElement({ ...fingerprint, alternativeLocators: [] }, doc)
+
+      expect(result.matchedBy).to.equal('similarity')
+      expect(result.element).to.equal(innerButton(doc, 0))
+    })
+  })
+
+  describe('Structure', () => {
+    const loginButton = '<button class="btn" data-testid="submit">Login</button>'
+    const page = (formButton: string) =>
+      `<section id="newsletter"><div>${loginButton}</div></section>` +
+      `<form id="login-form"><div><label>Username</label><input></div>${formButton}</form>`
+
+    it('should record the ancestors up to the nearest landmark', () => {
+      const doc = createFakeRoot(page(loginButton.replace('<button', '<button id="login-btn"')))
+      const { structure } = captureElementFingerprint(
+        doc.getElementById('login-btn') as HTMLElement,
+        'loginButton',
+        '#login-btn'
+      ).attributes
+
+      expect(structure?.ancestors).to.deep.equal([
+        { tagName: 'form', id: 'login-form', className: undefined },
+      ])
+      expect(structure?.neighbourLabels).to.deep.equal(['Username'])
+      expect(structure?.siblingIndex).to.equal(0)
+    })
+
+    it('should prefer the look-alike inside the recorded form', () => {
+      const doc = createFakeRoot(page(loginButton.replace('<button', '<button id="login-btn"')))
+      const fingerprint = captureElementFingerprint(
+        doc.getElementById('login-btn') as HTMLElement,
+        'loginButton',
+        '#login-btn'
+      )
+      doc.getElementById('login-btn')?.removeAttribute('id')
+
+      const result = matcher.findElement(fingerprint, doc)
+
+      expect(result.matchedBy).to.equal('data-testid')
+      expect(result.ambiguous).to.equal(false)
+      expect(result.element?.closest('form')).to.not.equal(null)
+    })
+
+    it('should give look-alikes different paths', () => {
+      const doc = createFakeRoot(
+        '<ul><li><button data-testid="delete-todo">Delete</button></li>' +
+          '<li><button data-testid="delete-todo">Delete</button></li></ul>'
+      )
+      const [first, second] = Array.from(doc.querySelectorAll('button'))
+
+      expect(describeElement(first)).to.equal(describeElement(second))
+      expect(elementPath(first)).to.equal('ul > li:nth-of-type(1) > button')
+      expect(elementPath(second)).to.equal('ul > li:nth-of-type(2) > button')
+    })
+  })
+})
@@ -0,0 +1,88 @@
+/**
+ * FingerprintHistory Unit Tests
+ *
+ * A fingerprint only follows the element once a change was observed
+ * consistently, and every promoted version can be diffed and restored.
+ */
+
+import {
+  captureElementFingerprint,
+  diffFingerprintVersions,
+  ElementFingerprint,
+  FingerprintHistory,
+} from '../support/self-healing'
+import { createFakeRoot } from '../support/test-helpers'
+
+function capture(html: string): ElementFingerprint {
+  const button = createFakeRoot(html).querySelector('button') as HTMLElement
+  return captureElementFingerprint(button, 'save', '#save')
+}
+
+describe('FingerprintHistory', () => {
+  const history = new FingerprintHistory({ runId: 'run-1', maxVersions: 3, promoteAfter: 3 })
+  const original = capture('<button id="save">Save</button>')
+  const renamed = capture('<button id="save">Save changes</button>')
+
+  it('should record the first capture as version 1 of the run', () => {
+    const fingerprint = history.observe(undefined, original)
+
+    expect(fingerprint.version).to.equal(1)
+    expect(fingerprint.history).to.have.length(1)
+    expect(fingerprint.history?.[0].runId).to.equal('run-1')
+  })
+
+  it('should only promote a changed capture after consistent observations', () => {
+    let fingerprint = history.observe(undefined, original)
+
+    fingerprint = history.observe(fingerprint, renamed)
+    fingerprint = history.observe(fingerprint, renamed)
+    expect(fingerprint.version).to.equal(1)
+    expect(fingerprint.attributes.text).to.equal('Save')
+    expect(fingerprint.candidate?.observations).to.equal(2)
+
+    fingerprint = history.observe(fingerprint, renamed)
+    expect(fingerprint.version).to.equal(2)
+    expect(fingerprint.attributes.text).to.equal('Save changes')
+    expect(fingerprint.candidate).to.equal(undefined)
+  })
+
+  it('should start counting again when the element flips back', () => {
+    let fingerprint = history.observe(undefined, original)
+
+    fingerprint = history.observe(fingerprint, renamed)
+    fingerprint = history.observe(fingerprint, original)
+    fingerprint = history.observe(fingerprint, renamed)
+
+    expect(fingerprint.version).to.equal(1)
+    expect(fingerprint.candidate?.observations).to.equal(1)
+  })
+
+  it('should promote registrations at once and keep a bounded history', () => {
+    let fingerprint = history.register(undefined, original)
+
+    fingerprint = history.register(fingerprint, original)
+    expect(fingerprint.version).to.equal(1)
+
+    ;['One', 'Two', 'Three'].forEach((text) => {
+      fingerprint = history.register(fingerprint, capture(`<button id="save">${text}</button>`))
+    })
+
+    expect(fingerprint.version).to.equal(4)
+    expect(fingerprint.history?.map((v) => v.version)).to.deep.equal([2, 3, 4])
+  })
+
+  it('should diff versions and roll back to an earlier one', () => {
+    let fingerprint = history.register(undefined, original)
+    fingerprint = history.register(fingerprint, renamed)
+
+    const changes = diffFingerprintVersions(fingerprint, 1, 2).filter((diff) => diff.changed)
+    expect(changes.map((diff) => diff.attribute)).to.include('text')
+
+    const restored = history.rollback(fingerprint, 1)
+    expect(restored.version).to.equal(3)
+    expect(restored.attributes.text).to.equal('Save')
+    expect(restored.history?.[2].restoredFrom).to.equal(1)
+
+    expect(() => history.rollback(fingerprint, 7)).to.throw('has no version 7')
+  })
+})
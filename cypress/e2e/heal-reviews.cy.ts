@@ -0,0 +1,257 @@
+/**
+ * Heal Review Unit Tests
+ *
+ * Heals below autoAcceptThreshold wait for a reviewer. Their decisions
+ * become the element's fingerprint, a blacklisted candidate or a
+ * calibration label, and apply to later heals of that element only.
+ */
+
+import {
+  acceptedFingerprint,
+  addHealReview,
+  decideReview,
+  promoteLocator,
+  toHealLabels,
+} from '../plugins/self-healing/heal-reviews'
+import {
+  captureElementFingerprint,
+  describeElement,
+  elementPath,
+  FingerprintHistory,
+  HealingContext,
+  HealReview,
+  locatorStore,
+  SelfHealingEngine,
+} from '../support/self-healing'
+import { createFakeRoot } from '../support/test-helpers'
+
+// The demo app's todo list: Delete buttons only their aria-label tells apart
+const todoList = (firstId = 'delete-milk') =>
+  createFakeRoot(
+    `<ul><li><button id="${firstId}" data-testid="delete-todo" aria-label="Delete Buy milk">Delete</button></li>` +
+      '<li><button data-testid="delete-todo" aria-label="Delete Walk dog">Delete</button></li></ul>'
+  )
+
+function review(element: HTMLElement, overrides: Partial<HealReview> = {}): HealReview {
+  return {
+    id: '1',
+    elementName: 'deleteMilk',
+    candidate: describeElement(element),
+    candidatePath: elementPath(element),
+    originalLocator: '#delete-milk',
+    healedLocator: '[aria-label="Delete Buy milk"]',
+    strategy: 'aria-label',
+    confidence: 0.7,
+    testFile: 'cypress/e2e/todos.cy.ts',
+    testName: 'deletes a todo',
+    firstSeen: new Date(1000),
+    lastSeen: new Date(1000),
+    occurrences: 1,
+    status: 'pending',
+    fingerprint: captureElementFingerprint(element, 'deleteMilk', '#delete-milk'),
+    ...overrides,
+  }
+}
+
+function queued(element: HTMLElement, overrides: Partial<HealReview> = {}) {
+  const { id: _id, ...rest } = review(element, overrides)
+  return rest
+}
+
+describe('addHealReview', () => {
+  const [milk, dog] = Array.from(todoList('').querySelectorAll('button'))
+
+  it('should number new reviews after the highest id', () => {
+    const { reviews, queued: added } = addHealReview(
+      [review(milk, { id: '7', elementName: 'other' })],
+      queued(milk)
+    )
+
+    expect(added.id).to.equal('8')
+    expect(reviews).to.have.length(2)
+  })
+
+  it('should count a pending candidate again instead of queueing it twice', () => {
+    const first = addHealReview([], queued(milk)).reviews
+    const { reviews, queued: again } = addHealReview(
+      first,
+      queued(milk, { lastSeen: new Date(2000), occurrences: 2 })
+    )
+
+    expect(reviews).to.have.length(1)
+    expect(again).to.include({ id: '1', occurrences: 3 })
+    expect(again.firstSeen).to.deep.equal(new Date(1000))
+    expect(again.lastSeen).to.deep.equal(new Date(2000))
+  })
+
+  it('should queue look-alike candidates separately', () => {
+    expect(describeElement(milk)).to.equal(describeElement(dog))
+
+    const first = addHealReview([], queued(milk)).reviews
+    const { reviews } = addHealReview(first, queued(dog))
+
+    expect(reviews.map((r) => r.id)).to.deep.equal(['1', '2'])
+  })
+
+  it('should leave decided reviews alone', () => {
+    const rejected = review(milk, { status: 'rejected', decidedAt: new Date(1500) })
+
+    const { reviews, queued: existing } = addHealReview([rejected], queued(milk))
+
+    expect(reviews).to.deep.equal([rejected])
+    expect(existing).to.equal(rejected)
+  })
+})
+
+describe('decideReview', () => {
+  const [milk] = Array.from(todoList().querySelectorAll('button'))
+
+  it('should record the decision and when it was taken', () => {
+    const { reviews, review: decided } = decideReview(
+      [review(milk)],
+      '1',
+      'rejected',
+      new Date(3000)
+    )
+
+    expect(decided).to.include({ status: 'rejected' })
+    expect(decided.decidedAt).to.deep.equal(new Date(3000))
+    expect(reviews).to.deep.equal([decided])
+  })
+
+  it('should refuse unknown and already decided reviews', () => {
+    const accepted = decideReview([review(milk)], '1', 'accepted').reviews
+
+    expect(() => decideReview(accepted, '1', 'rejected')).to.throw('already accepted')
+    expect(() => decideReview(accepted, '2', 'rejected')).to.throw('No heal review with id 2')
+  })
+
+  it('should turn decisions into calibration labels', () => {
+    const reviews = [
+      review(milk, { id: '1', status: 'accepted' }),
+      review(milk, { id: '2', status: 'rejected', healedLocator: 'similarity-based' }),
+      review(milk, { id: '3' }),
+    ]
+
+    expect(toHealLabels(reviews)).to.deep.equal([
+      {
+        elementName: 'deleteMilk',
+        healedLocator: '[aria-label="Delete Buy milk"]',
+        correct: true,
+      },
+      { elementName: 'deleteMilk', healedLocator: 'similarity-based', correct: false },
+    ])
+  })
+})
+
+describe('acceptedFingerprint', () => {
+  const history = new FingerprintHistory({ runId: 'review', maxVersions: 10, promoteAfter: 3 })
+  const [milk] = Array.from(todoList().querySelectorAll('button'))
+
+  it('should try the locator that healed the element first', () => {
+    const fingerprint = captureElementFingerprint(milk, 'deleteMilk', '#delete-milk')
+
+    const promoted = promoteLocator(fingerprint, '[aria-label="Delete Buy milk"]')
+
+    expect(promoted.alternativeLocators[0].value).to.equal('[aria-label="Delete Buy milk"]')
+    expect(promoted.alternativeLocators).to.have.length(fingerprint.alternativeLocators.length)
+  })
+
+  it("should make the healed element's capture the current version", () => {
+    const stored = history.register(
+      undefined,
+      captureElementFingerprint(
+        todoList().querySelector('button') as HTMLElement,
+        'deleteMilk',
+        '#delete-milk'
+      )
+    )
+    const renamed = todoList('remove-milk').querySelector('button') as HTMLElement
+
+    const accepted = acceptedFingerprint(stored, review(renamed), history)
+
+    expect(accepted.version).to.equal(2)
+    expect(accepted.attributes.id).to.equal('remove-milk')
+    expect(accepted.alternativeLocators[0].type).to.equal('aria-label')
+  })
+})
+
+describe('Heals below autoAcceptThreshold', () => {
+  const context: HealingContext = {
+    testFile: 'cypress/e2e/todos.cy.ts',
+    testName: 'deletes a todo',
+    source: 'get',
+  }
+
+  // Captures the button in one command, and heals it in the next once its id is gone
+  function heal(engine: SelfHealingEngine, elementName: string, doc: Document) {
+    const query = () =>
+      engine.createAutoCaptureQuery(
+        '#delete-milk',
+        elementName,
+        context,
+        () => Cypress.$(Array.from(doc.querySelectorAll<HTMLElement>('#delete-milk'))),
+        () => doc.body
+      )
+    query()(undefined)
+    doc.getElementById('delete-milk')?.removeAttribute('id')
+    return query()(undefined)[0]
+  }
+
+  function createEngine() {
+    return new SelfHealingEngine({
+      healingGracePeriod: 0,
+      autoAcceptThreshold: 1,
+      autoCapture: { enabled: true },
+    })
+  }
+
+  // The buttons as they are once healed: without the id the broken locator relied on
+  const candidates = Array.from(todoList('').querySelectorAll('button'))
+
+  const lastEvent = (elementName: string) =>
+    locatorStore
+      .getHealingEvents()
+      .filter((event) => event.elementName === elementName)
+      .pop()
+
+  it('should be marked for review', () => {
+    const doc = todoList()
+
+    const healed = heal(createEngine(), 'reviewPending', doc)
+
+    expect(healed.getAttribute('aria-label')).to.equal('Delete Buy milk')
+    expect(lastEvent('reviewPending')?.pendingReview).to.equal(true)
+  })
+
+  it('should not need review once the candidate was accepted', () => {
+    const engine = createEngine()
+    engine.setReviewDecisions([
+      review(candidates[0], { elementName: 'reviewAccepted', status: 'accepted' }),
+    ])
+
+    heal(engine, 'reviewAccepted', todoList())
+
+    expect(lastEvent('reviewAccepted')?.pendingReview).to.equal(undefined)
+  })
+
+  it('should never pick a rejected candidate again', () => {
+    const doc = todoList()
+    const engine = createEngine()
+    engine.setReviewDecisions([
+      review(candidates[0], { elementName: 'reviewRejected', status: 'rejected' }),
+    ])
+
+    expect(heal(engine, 'reviewRejected', doc)).to.not.equal(doc.querySelector('button'))
+  })
+
+  it('should keep healing to the look-alike of a rejected candidate', () => {
+    const doc = todoList()
+    const engine = createEngine()
+    engine.setReviewDecisions([
+      review(candidates[1], { elementName: 'reviewLookAlike', status: 'rejected' }),
+    ])
+
+    expect(heal(engine, 'reviewLookAlike', doc)).to.equal(doc.querySelector('button'))
+  })
+})
@@ -0,0 +1,70 @@
+/**
+ * HealingBudgetPolicy Unit Tests
+ *
+ * Heals keep tests green, so budgets turn too much healing
+ * (or healing with weak strategies) into failures.
+ */
+
+import { HealingBudgetPolicy } from '../support/self-healing'
+import { healingEvent } from '../support/test-helpers'
+
+describe('HealingBudgetPolicy', () => {
+  it('should not check anything without limits', () => {
+    const policy = new HealingBudgetPolicy({})
+
+    expect(policy.isEnabled()).to.equal(false)
+    expect(
+      policy.evaluate([healingEvent({}), healingEvent({ strategy: 'similarity' })])
+    ).to.deep.equal([])
+  })
+
+  it('should report run, element and spec budgets that are exceeded', () => {
+    const policy = new HealingBudgetPolicy({
+      maxHeals: 2,
+      maxHealsPerElement: 1,
+      maxHealsPerSpec: 2,
+    })
+    const breaches = policy.evaluate([
+      healingEvent({}),
+      healingEvent({}),
+      healingEvent({ elementName: 'searchButton', testFile: 'cypress/e2e/search.cy.ts' }),
+    ])
+
+    expect(breaches.map((breach) => breach.id)).to.deep.equal([
+      'maxHeals||',
+      'maxHealsPerElement||loginButton',
+    ])
+    expect(breaches[0]).to.include({ limit: 2, actual: 3 })
+  })
+
+  it('should count heals below the confidence floor', () => {
+    const events = [healingEvent({ confidence: 0.65 }), healingEvent({ confidence: 0.9 })]
+
+    expect(new HealingBudgetPolicy({ confidenceFloor: 0.7 }).evaluate(events)).to.have.length(1)
+    expect(
+      new HealingBudgetPolicy({ confidenceFloor: 0.7, maxLowConfidenceHeals: 1 }).evaluate(events)
+    ).to.deep.equal([])
+  })
+
+  it('should treat heals with forbidden strategies as breaches of their spec', () => {
+    const [breach] = new HealingBudgetPolicy({
+      forbiddenStrategies: ['class', 'similarity'],
+    }).evaluate([healingEvent({ strategy: 'class' }), healingEvent({ strategy: 'id' })])
+
+    expect(breach).to.include({
+      rule: 'forbiddenStrategies',
+      testFile: 'cypress/e2e/login.cy.ts',
+      elementName: 'loginButton',
+      actual: 1,
+    })
+    expect(breach.message).to.contain('class strategy')
+  })
+
+  it('should not treat disambiguated heals as forbidden strategies', () => {
+    const policy = new HealingBudgetPolicy({ forbiddenStrategies: ['class', 'similarity'] })
+
+    expect(
+      policy.evaluate([healingEvent({ strategy: 'similarity', primaryMatch: 'disambiguated' })])
+    ).to.deep.equal([])
+  })
+})
@@ -0,0 +1,138 @@
+/**
+ * HealingReporter Unit Tests
+ *
+ * Success rates are computed from every recorded healing attempt,
+ * including the ones that failed.
+ */
+
+import { HealingAttempt, healingReporter, locatorStore } from '../support/self-healing'
+import { healingEvent } from '../support/test-helpers'
+
+function attempt(overrides: Partial<HealingAttempt>): HealingAttempt {
+  return {
+    timestamp: new Date(),
+    elementName: 'loginButton',
+    originalLocator: '#submit-btn',
+    outcome: 'healed',
+    strategy: 'data-testid',
+    bestConfidence: 0.95,
+    threshold: 0.6,
+    runnerUps: [],
+    testFile: 'cypress/e2e/healing-reporter.cy.ts',
+    testName: 'unit',
+    ...overrides,
+  }
+}
+
+describe('HealingReporter', () => {
+  beforeEach(() => {
+    locatorStore.clearHealingEvents()
+  })
+
+  afterEach(() => {
+    locatorStore.clearHealingEvents()
+  })
+
+  it('should report a full success rate when nothing needed healing', () => {
+    expect(healingReporter.generateReport().summary.successRate).to.equal(1)
+  })
+
+  it('should compute the success rate from failed attempts too', () => {
+    locatorStore.recordHealingAttempt(attempt({}))
+    locatorStore.recordHealingAttempt(
+      attempt({ outcome: 'below-threshold', strategy: 'similarity', bestConfidence: 0.4 })
+    )
+    locatorStore.recordHealingAttempt(
+      attempt({
+        elementName: 'ghost',
+        outcome: 'no-fingerprint',
+        strategy: undefined,
+        bestConfidence: 0,
+      })
+    )
+
+    const { summary, totalHealingAttempts } = healingReporter.generateReport()
+
+    expect(totalHealingAttempts).to.equal(3)
+    expect(summary.successRate).to.be.closeTo(1 / 3, 0.001)
+    expect(summary.successByElement.loginButton).to.include({
+      attempts: 2,
+      healed: 1,
+      successRate: 0.5,
+    })
+    expect(summary.successByElement.loginButton.lowestConfidence).to.equal(0.4)
+    expect(summary.successByStrategy.similarity.successRate).to.equal(0)
+    expect(summary.successByStrategy).to.not.have.property('undefined')
+  })
+
+  it('should rank elements by how close they are to becoming unhealable', () => {
+    locatorStore.recordHealingAttempt(attempt({ elementName: 'safe', bestConfidence: 0.95 }))
+    locatorStore.recordHealingAttempt(attempt({ elementName: 'fragile', bestConfidence: 0.62 }))
+
+    const atRisk = healingReporter.getAtRiskElements(healingReporter.generateReport())
+
+    expect(atRisk[0].elementName).to.equal('fragile')
+    expect(atRisk[0].margin).to.be.closeTo(0.02, 0.001)
+  })
+
+  it('should report each heal as a JUnit test case with a warning property', () => {
+    const xml = healingReporter.generateJUnitReport([
+      healingEvent({ line: 12 }),
+      healingEvent({ elementName: 'a<b>', testFile: 'cypress/e2e/other.cy.ts' }),
+    ])
+    const doc = new DOMParser().parseFromString(xml, 'application/xml')
+
+    expect(doc.querySelectorAll('testsuite')).to.have.length(2)
+    const testCase = doc.querySelector('testcase') as Element
+    expect(testCase.getAttribute('file')).to.equal('cypress/e2e/login.cy.ts')
+    expect(testCase.getAttribute('line')).to.equal('12')
+    expect(testCase.querySelector('property[name="warning"]')?.getAttribute('value')).to.contain(
+      "cy.heal('#submit-btn', 'loginButton') is broken"
+    )
+    expect(doc.querySelectorAll('testcase')[1].getAttribute('name')).to.equal('a<b>')
+  })
+
+  it('should locate SARIF results at the cy.heal() call', () => {
+    const sarif = healingReporter.generateSarifReport([
+      healingEvent({ line: 12 }),
+      healingEvent({ primaryMatch: 'disambiguated', primaryMatches: 2 }),
+    ])
+    const [located, unlocated] = sarif.runs[0].results
+
+    expect(located.ruleId).to.equal('broken-locator')
+    expect(located.level).to.equal('warning')
+    expect(located.locations[0].physicalLocation).to.deep.equal({
+      artifactLocation: { uri: 'cypress/e2e/login.cy.ts', uriBaseId: '%SRCROOT%' },
+      region: { startLine: 12 },
+    })
+    expect(unlocated.ruleId).to.equal('non-unique-locator')
+    expect(unlocated.locations[0].physicalLocation).to.not.have.property('region')
+  })
+
+  it('should name the spec code each heal came from', () => {
+    const sarif = healingReporter.generateSarifReport([
+      healingEvent({ source: 'heal' }),
+      healingEvent({
+        source: 'page',
+        pageElement: 'LoginPage.submitButton',
+        elementName: 'LoginPage.submitButton',
+      }),
+      healingEvent({
+        source: 'get',
+        elementName: 'cypress/e2e/login.cy.ts › logs in › #submit-btn',
+      }),
+      healingEvent({ source: 'contains', originalLocator: 'contains(button, "Log in")' }),
+      healingEvent({ source: 'frame', originalLocator: '#payment-frame' }),
+    ])
+
+    expect(
+      sarif.runs[0].results.map((result) => result.message.text.split(' is broken')[0])
+    ).to.deep.equal([
+      "cy.heal('#submit-btn', 'loginButton')",
+      "Page element LoginPage.submitButton ('#submit-btn')",
+      "cy.get('#submit-btn')",
+      'cy.contains(button, "Log in")',
+      "Frame locator '#payment-frame'",
+    ])
+  })
+})
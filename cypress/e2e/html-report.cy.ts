@@ -0,0 +1,96 @@
+/**
+ * HTML Report Unit Tests
+ *
+ * Heals are grouped by spec and test, their text is escaped, and every
+ * heal carries the attributes the strategy and confidence filters use.
+ */
+
+import { generateHtmlReport } from '../plugins/self-healing/html-report'
+import { HealingEvent, HealSnapshot } from '../support/self-healing'
+import { healingEvent } from '../support/test-helpers'
+
+function heal(overrides: Partial<HealingEvent>): HealSnapshot {
+  return {
+    event: healingEvent(overrides),
+    fingerprint: { tagName: 'button', id: 'submit-btn', text: 'Log in' },
+    current: {
+      tagName: 'button',
+      text: 'Log in',
+      dataAttributes: { 'data-testid': 'login-button' },
+    },
+  }
+}
+
+function render(snapshots: HealSnapshot[]): Document {
+  return new DOMParser().parseFromString(generateHtmlReport(snapshots), 'text/html')
+}
+
+function texts(report: Document, selector: string): string[] {
+  return Array.from(report.querySelectorAll(selector), (el) => el.textContent?.trim() || '')
+}
+
+describe('generateHtmlReport', () => {
+  it('should say so when nothing was healed', () => {
+    const report = render([])
+
+    expect(texts(report, '.empty')).to.deep.equal(['No element needed healing in this run.'])
+    expect(report.querySelectorAll('.heal')).to.have.length(0)
+  })
+
+  it('should group heals by spec, then by test', () => {
+    const report = render([
+      heal({ testFile: 'cypress/e2e/login.cy.ts', testName: 'logs in' }),
+      heal({ testFile: 'cypress/e2e/search.cy.ts', testName: 'finds products' }),
+      heal({ testFile: 'cypress/e2e/login.cy.ts', testName: 'logs out', elementName: 'logout' }),
+      heal({ testFile: 'cypress/e2e/login.cy.ts', testName: 'logs in', elementName: 'username' }),
+    ])
+
+    expect(texts(report, '.spec > h2')).to.deep.equal([
+      'cypress/e2e/login.cy.ts',
+      'cypress/e2e/search.cy.ts',
+    ])
+    expect(texts(report, '.spec:first-of-type .test > h3')).to.deep.equal(['logs in', 'logs out'])
+    expect(report.querySelectorAll('.spec:first-of-type .test:first-of-type .heal')).to.have.length(
+      2
+    )
+  })
+
+  it('should give every heal the attributes the filters read', () => {
+    const report = render([
+      heal({ strategy: 'text', confidence: 0.734 }),
+      heal({ strategy: 'data-testid', confidence: 0.95 }),
+    ])
+
+    const heals = Array.from(report.querySelectorAll<HTMLElement>('.heal'))
+    expect(heals.map((el) => [el.dataset.strategy, el.dataset.confidence])).to.deep.equal([
+      ['text', '73.4'],
+      ['data-testid', '95.0'],
+    ])
+    expect(texts(report, '#strategy-filter option')).to.deep.equal(['All', 'data-testid', 'text'])
+  })
+
+  it('should escape spec, test, element and locator text', () => {
+    const report = render([
+      heal({
+        testFile: 'cypress/e2e/<b>.cy.ts',
+        testName: 'renders <script>alert(1)</script>',
+        elementName: '<img src=x onerror=alert(1)>',
+        originalLocator: 'a[title="a & b"]',
+        strategy: 'similarity',
+      }),
+    ])
+
+    expect(report.querySelectorAll('main b, main script, main img')).to.have.length(0)
+    expect(texts(report, '.spec > h2')).to.deep.equal(['cypress/e2e/<b>.cy.ts'])
+    expect(texts(report, '.test > h3')).to.deep.equal(['renders <script>alert(1)</script>'])
+    expect(texts(report, 'code.broken')).to.deep.equal(['a[title="a & b"]'])
+  })
+
+  it('should highlight changed attributes and note a missing screenshot', () => {
+    const report = render([heal({})])
+
+    expect(texts(report, 'tr.changed > th')).to.include.members(['id', 'data-testid'])
+    expect(texts(report, '.heal .empty')).to.deep.equal(['No screenshot'])
+    expect(report.querySelectorAll('.heal img')).to.have.length(0)
+  })
+})
@@ -0,0 +1,86 @@
+/**
+ * Locator Stability Unit Tests
+ *
+ * Fragile primary locators are flagged from the store and the healing
+ * history, with the most stable alternative stored for the element.
+ */
+
+import {
+  analyzeLocatorStability,
+  assessLocator,
+  captureElementFingerprint,
+  ElementFingerprint,
+  HealingEvent,
+} from '../support/self-healing'
+import { createFakeRoot } from '../support/test-helpers'
+
+function capture(html: string, name: string, primaryLocator: string): ElementFingerprint {
+  const button = createFakeRoot(html).querySelector('button') as HTMLElement
+  return captureElementFingerprint(button, name, primaryLocator)
+}
+
+describe('Locator stability', () => {
+  it('should flag positional, class-only and long-text locators', () => {
+    expect(assessLocator('form > div:nth-child(3) > button')).to.deep.equal(['positional'])
+    expect(assessLocator('/html/body/div[2]/button')).to.deep.equal(['positional'])
+    expect(assessLocator('.btn.btn-primary')).to.deep.equal(['class-only'])
+    expect(
+      assessLocator('//button[normalize-space()="Save all the changes made to this form"]')
+    ).to.deep.equal(['long-text'])
+    expect(assessLocator('contains("Save all the changes made to this form")')).to.deep.equal([
+      'long-text',
+    ])
+  })
+
+  it('should leave stable locators alone', () => {
+    expect(assessLocator('#save')).to.deep.equal([])
+    expect(assessLocator('[data-testid="save-all-the-changes-made-to-this-form"]')).to.deep.equal(
+      []
+    )
+    expect(assessLocator('//*[@id="login-form"]//button[normalize-space()="Login"]')).to.deep.equal(
+      []
+    )
+  })
+
+  it('should suggest the most stable alternative of a fragile locator', () => {
+    const fingerprint = capture(
+      '<form><button id="save" data-testid="save" class="btn">Save</button></form>',
+      'saveButton',
+      'form > button:first-child'
+    )
+
+    const [finding] = analyzeLocatorStability([fingerprint], [])
+    expect(finding.issues).to.deep.equal(['positional'])
+    expect(finding.suggestedLocator).to.equal('[data-testid="save"]')
+    expect(finding.missingTestId).to.equal(false)
+  })
+
+  it('should only suggest alternatives that matched the element alone', () => {
+    // The demo app's todo list: every Delete button shares the data-testid
+    const fingerprint = capture(
+      '<ul><li><button data-testid="delete-todo" aria-label="Delete Buy milk">Delete</button></li>' +
+        '<li><button data-testid="delete-todo" aria-label="Delete Walk dog">Delete</button></li></ul>',
+      'deleteMilk',
+      'li:first-child > button'
+    )
+
+    const [finding] = analyzeLocatorStability([fingerprint], [])
+    expect(finding.suggestedLocator).to.equal('[aria-label="Delete Buy milk"]')
+    expect(finding.suggestedStrategy).to.equal('aria-label')
+  })
+
+  it('should report healed elements and elements without a test id', () => {
+    const stable = capture('<button id="save" data-cy="save">Save</button>', 'saved', '#save')
+    const untagged = capture('<button id="cancel">Cancel</button>', 'cancelButton', '#cancel')
+    const heal = {
+      elementName: 'cancelButton',
+      testFile: 'cypress/e2e/form.cy.ts',
+    } as HealingEvent
+
+    const findings = analyzeLocatorStability([stable, untagged], [heal, heal])
+    expect(findings).to.have.length(1)
+    expect(findings[0]).to.include({ elementName: 'cancelButton', missingTestId: true, heals: 2 })
+    expect(findings[0].issues).to.deep.equal(['healed'])
+    expect(findings[0].testFiles).to.deep.equal(['cypress/e2e/form.cy.ts'])
+  })
+})
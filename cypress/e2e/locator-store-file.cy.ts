@@ -0,0 +1,143 @@
+/**
+ * Locator Store Merge Unit Tests
+ *
+ * Parallel runs write to the same store file. Merging their writes must
+ * keep every run's heals, fingerprint versions and candidates.
+ */
+
+import { mergeLocatorStoreData } from '../plugins/self-healing/locator-store-file'
+import {
+  captureElementFingerprint,
+  DEFAULT_CONFIG,
+  ElementFingerprint,
+  FingerprintHistory,
+  HealingAttempt,
+  HealingEvent,
+  LocatorStoreSnapshot,
+} from '../support/self-healing'
+import { createFakeRoot, healingEvent } from '../support/test-helpers'
+
+function capture(text: string, seenAt: number): ElementFingerprint {
+  const button = createFakeRoot(`<button id="save">${text}</button>`).querySelector(
+    'button'
+  ) as HTMLElement
+  return { ...captureElementFingerprint(button, 'save', '#save'), lastSeen: new Date(seenAt) }
+}
+
+function snapshot(
+  fingerprints: ElementFingerprint[],
+  healingEvents: HealingEvent[] = [],
+  healingAttempts: HealingAttempt[] = []
+): LocatorStoreSnapshot {
+  return { fingerprints, healingEvents, healingAttempts }
+}
+
+function heal(at: number): HealingEvent {
+  return healingEvent({ elementName: 'save', timestamp: new Date(at) })
+}
+
+function attempt(at: number): HealingAttempt {
+  return {
+    timestamp: new Date(at),
+    elementName: 'save',
+    originalLocator: '#save',
+    outcome: 'no-candidate',
+    bestConfidence: 0,
+    threshold: 0.7,
+    runnerUps: [],
+    testFile: 'cypress/e2e/editor.cy.ts',
+    testName: 'saves',
+  }
+}
+
+describe('mergeLocatorStoreData', () => {
+  const options = { maxVersions: 10, promoteAfter: 2 }
+  const runA = new FingerprintHistory({ runId: 'run-a', ...options })
+  const runB = new FingerprintHistory({ runId: 'run-b', ...options })
+  const stored = runA.register(undefined, capture('Save', 1000))
+
+  it('should keep the versions both concurrent writers promoted', () => {
+    const writerA = runA.register(stored, capture('Save changes', 2000))
+    const writerB = runB.register(stored, capture('Save now', 3000))
+
+    // Whichever writer gets the lock first, the capture seen last stays current
+    ;[
+      mergeLocatorStoreData(snapshot([writerA]), snapshot([writerB])),
+      mergeLocatorStoreData(snapshot([writerB]), snapshot([writerA])),
+    ].forEach(({ fingerprints: [merged] }) => {
+      expect(merged.attributes.text).to.equal('Save now')
+      expect(merged.version).to.equal(3)
+      expect(merged.history?.map((v) => [v.version, v.attributes.text])).to.deep.equal([
+        [1, 'Save'],
+        [2, 'Save changes'],
+        [3, 'Save now'],
+      ])
+    })
+  })
+
+  it('should trim merged versions to fingerprintHistorySize', () => {
+    const writerA = runA.register(stored, capture('Save changes', 2000))
+    const writerB = runB.register(stored, capture('Save now', 3000))
+
+    const { fingerprints } = mergeLocatorStoreData(snapshot([writerA]), snapshot([writerB]), {
+      ...DEFAULT_CONFIG,
+      fingerprintHistorySize: 2,
+    })
+
+    expect(fingerprints[0].history?.map((v) => v.version)).to.deep.equal([2, 3])
+  })
+
+  it('should add up the observations of a change both writers saw', () => {
+    const writerA = runA.observe(stored, capture('Save changes', 2000))
+    const writerB = runB.observe(stored, capture('Save changes', 3000))
+
+    const { fingerprints } = mergeLocatorStoreData(snapshot([writerA]), snapshot([writerB]))
+
+    expect(fingerprints[0].version).to.equal(1)
+    expect(fingerprints[0].candidate?.observations).to.equal(2)
+    expect(fingerprints[0].candidate?.capturedAt).to.deep.equal(new Date(2000))
+  })
+
+  it("should keep the other writer's candidate, unless a rollback dropped it", () => {
+    const writerA = runA.observe(stored, capture('Save changes', 2000))
+    const writerB = runB.observe(stored, capture('Save', 3000))
+
+    const kept = mergeLocatorStoreData(snapshot([writerA]), snapshot([writerB]))
+    expect(kept.fingerprints[0].attributes.text).to.equal('Save')
+    expect(kept.fingerprints[0].candidate?.attributes.text).to.equal('Save changes')
+
+    const rolledBack = runA.rollback(writerA, 1)
+    const dropped = mergeLocatorStoreData(snapshot([writerA]), snapshot([rolledBack]))
+    expect(dropped.fingerprints[0].candidate).to.equal(undefined)
+  })
+
+  it('should add up the heal counts of concurrent writers, counting each heal once', () => {
+    const base = snapshot([{ ...stored, healCount: 2 }], [heal(1000), heal(2000)])
+    // Loaded the store with one heal, then healed once more
+    const incoming = snapshot([{ ...stored, healCount: 2 }], [heal(3000)])
+
+    const merged = mergeLocatorStoreData(base, incoming)
+    expect(merged.fingerprints[0].healCount).to.equal(3)
+    expect(merged.healingEvents).to.have.length(3)
+
+    const again = mergeLocatorStoreData(merged, incoming)
+    expect(again.fingerprints[0].healCount).to.equal(3)
+  })
+
+  it('should keep only the newest storeHistoryLimit events and attempts', () => {
+    const base = snapshot([], [heal(1000), heal(3000)], [attempt(1000), attempt(3000)])
+    const incoming = snapshot([], [heal(2000)], [attempt(2000)])
+
+    const merged = mergeLocatorStoreData(base, incoming, {
+      ...DEFAULT_CONFIG,
+      storeHistoryLimit: 2,
+    })
+
+    expect(merged.healingEvents.map((e) => new Date(e.timestamp).getTime())).to.deep.equal([
+      2000, 3000,
+    ])
+    expect(merged.healingAttempts?.map((a) => new Date(a.timestamp).getTime())).to.deep.equal([
+      2000, 3000,
+    ])
+  })
+})
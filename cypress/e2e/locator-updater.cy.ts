@@ -0,0 +1,219 @@
+/**
+ * Locator Updater Unit Tests
+ *
+ * Healed locators are written back into cy.heal() literals, as edits
+ * applied in place or as a patch for `git apply`.
+ */
+
+import {
+  createUnifiedDiff,
+  findHealCallLine,
+  locateHealCallsInSources,
+  planLocatorUpdates,
+  rewriteHealCalls,
+} from '../plugins/self-healing/locator-updater'
+import { LocatorUpdate } from '../support/self-healing'
+import { healingEvent } from '../support/test-helpers'
+
+const SPEC = 'cypress/e2e/login.cy.ts'
+
+function update(overrides: Partial<LocatorUpdate>): LocatorUpdate {
+  return {
+    testFile: SPEC,
+    elementName: 'loginButton',
+    originalLocator: '#submit-btn',
+    updatedLocator: '[data-testid="login-button"]',
+    confidence: 0.95,
+    ...overrides,
+  }
+}
+
+function rewrite(source: string, ...updates: LocatorUpdate[]) {
+  return rewriteHealCalls(source, SPEC, updates.length > 0 ? updates : [update({})])
+}
+
+describe('rewriteHealCalls', () => {
+  it('should keep the quote style of each literal', () => {
+    expect(rewrite(`cy.heal('#submit-btn', 'loginButton')`).content).to.equal(
+      `cy.heal('[data-testid="login-button"]', 'loginButton')`
+    )
+    expect(rewrite(`cy.heal("#submit-btn", "loginButton")`).content).to.equal(
+      `cy.heal("[data-testid=\\"login-button\\"]", "loginButton")`
+    )
+    expect(rewrite('cy.heal(`#submit-btn`, `loginButton`)').content).to.equal(
+      'cy.heal(`[data-testid="login-button"]`, `loginButton`)'
+    )
+  })
+
+  it('should match and write escaped quotes', () => {
+    const { content, fileEdits } = rewrite(
+      `cy.heal('[aria-label=\\'Log in\\']', 'loginButton')`,
+      update({ originalLocator: "[aria-label='Log in']", updatedLocator: "[title='Log in']" })
+    )
+
+    expect(content).to.equal(`cy.heal('[title=\\'Log in\\']', 'loginButton')`)
+    expect(fileEdits[0].after).to.equal(content)
+  })
+
+  it('should write locators with $ as they are', () => {
+    const source = `  cy.heal('#logout', 'logoutLink').click()`
+
+    ;['a[href$="/logout"]', "a[name$='&']", '[data-x="$&$$"]'].forEach((updatedLocator) => {
+      const { content, fileEdits } = rewrite(
+        source,
+        update({ elementName: 'logoutLink', originalLocator: '#logout', updatedLocator })
+      )
+      const literal = `'${updatedLocator.replace(/'/g, "\\'")}'`
+
+      expect(content).to.equal(`  cy.heal(${literal}, 'logoutLink').click()`)
+      expect(fileEdits[0].after).to.equal(`cy.heal(${literal}, 'logoutLink').click()`)
+    })
+  })
+
+  it('should leave template literals with placeholders alone and escape new ones', () => {
+    const dynamic = rewrite(
+      'cy.heal(`#row-${id}`, `row`)',
+      update({ elementName: 'row', originalLocator: '#row-${id}' })
+    )
+    expect(dynamic.fileEdits).to.have.length(0)
+    expect(dynamic.unmatched).to.have.length(1)
+
+    const { content } = rewrite(
+      'cy.heal(`#total`, `total`)',
+      update({ elementName: 'total', originalLocator: '#total', updatedLocator: '[data-x="${a}"]' })
+    )
+    expect(content).to.equal('cy.heal(`[data-x="\\${a}"]`, `total`)')
+  })
+
+  it('should report the line of every edit', () => {
+    const source = [
+      "it('logs in', () => {",
+      "  cy.heal('#user', 'usernameInput').type('admin')",
+      "  cy.heal('#submit-btn', 'loginButton').click()",
+      '})',
+    ].join('\n')
+
+    const { fileEdits } = rewrite(
+      source,
+      update({}),
+      update({
+        elementName: 'usernameInput',
+        originalLocator: '#user',
+        updatedLocator: '#username',
+      })
+    )
+
+    expect(fileEdits.map((edit) => edit.line)).to.deep.equal([2, 3])
+  })
+})
+
+describe('createUnifiedDiff', () => {
+  const lines = (count: number) => Array.from({ length: count }, (_, i) => `line ${i + 1}`)
+  const change = (source: string[], ...indexes: number[]) =>
+    source.map((line, i) => (indexes.includes(i) ? `${line} changed` : line))
+
+  it('should mark a last line without a line break', () => {
+    const before = lines(2).join('\n')
+    const after = change(lines(2), 1).join('\n')
+
+    expect(createUnifiedDiff(SPEC, before, after)).to.equal(
+      `diff --git a/${SPEC} b/${SPEC}\n--- a/${SPEC}\n+++ b/${SPEC}\n` +
+        '@@ -1,2 +1,2 @@\n' +
+        ' line 1\n' +
+        '-line 2\n\\ No newline at end of file\n' +
+        '+line 2 changed\n\\ No newline at end of file\n'
+    )
+  })
+
+  it('should end at the last line of a file ending with a line break', () => {
+    const before = `${lines(2).join('\n')}\n`
+    const after = `${change(lines(2), 1).join('\n')}\n`
+
+    expect(createUnifiedDiff(SPEC, before, after)).to.match(
+      /@@ -1,2 \+1,2 @@\n line 1\n-line 2\n\+line 2 changed\n$/
+    )
+  })
+
+  it('should merge changes whose context overlaps into one hunk', () => {
+    const before = lines(20)
+
+    const close = createUnifiedDiff(SPEC, before.join('\n'), change(before, 2, 8).join('\n'))
+    expect(close.match(/^@@ .* @@$/gm)).to.deep.equal(['@@ -1,12 +1,12 @@'])
+
+    const apart = createUnifiedDiff(SPEC, before.join('\n'), change(before, 2, 15).join('\n'))
+    expect(apart.match(/^@@ .* @@$/gm)).to.deep.equal(['@@ -1,6 +1,6 @@', '@@ -13,7 +13,7 @@'])
+  })
+})
+
+describe('planLocatorUpdates', () => {
+  it('should rewrite each spec once and skip specs that are gone', () => {
+    const sources = new Map<string, string | null>([
+      [SPEC, "cy.heal('#submit-btn', 'loginButton')\n"],
+      ['cypress/e2e/deleted.cy.ts', null],
+    ])
+
+    const plan = planLocatorUpdates(sources, [
+      update({ confidence: 0.7, updatedLocator: '.btn-primary' }),
+      update({}),
+      update({ testFile: 'cypress/e2e/deleted.cy.ts' }),
+    ])
+
+    expect(plan.edits).to.have.length(1)
+    expect(plan.contents.get(SPEC)).to.equal(
+      `cy.heal('[data-testid="login-button"]', 'loginButton')\n`
+    )
+    expect(plan.skipped.map((u) => u.testFile)).to.deep.equal(['cypress/e2e/deleted.cy.ts'])
+    expect(plan.patch).to.contain(`+cy.heal('[data-testid="login-button"]', 'loginButton')`)
+  })
+
+  it('should plan nothing when no literal matches', () => {
+    const plan = planLocatorUpdates(new Map([[SPEC, "cy.get('#submit-btn')"]]), [update({})])
+
+    expect(plan.contents.size).to.equal(0)
+    expect(plan.patch).to.equal('')
+    expect(plan.skipped).to.have.length(1)
+  })
+})
+
+describe('findHealCallLine', () => {
+  const source = [
+    "describe('login', () => {",
+    "  it('logs in', () => {",
+    "    cy.heal('#submit-btn', 'otherButton')",
+    '    cy.heal(',
+    '      "#submit-btn",',
+    '      "loginButton"',
+    '    ).click()',
+    "    cy.heal('[title=\\'Log in\\']', 'titledButton')",
+    '  })',
+    '})',
+  ].join('\n')
+
+  it('should find the line of the locator literal, whatever the quotes and wrapping', () => {
+    expect(findHealCallLine(source, '#submit-btn', 'loginButton')).to.equal(5)
+    expect(findHealCallLine(source, "[title='Log in']", 'titledButton')).to.equal(8)
+  })
+
+  it('should match the element name as well as the locator', () => {
+    expect(findHealCallLine(source, '#submit-btn', 'otherButton')).to.equal(3)
+    expect(findHealCallLine(source, '#submit-btn', 'missingButton')).to.equal(null)
+  })
+})
+
+describe('locateHealCallsInSources', () => {
+  it('should only locate heals written as cy.heal() calls in specs that exist', () => {
+    const sources = new Map<string, string | null>([
+      [SPEC, "\n  cy.heal('#submit-btn', 'loginButton')\n"],
+      ['cypress/e2e/deleted.cy.ts', null],
+    ])
+
+    const located = locateHealCallsInSources(sources, [
+      healingEvent({}),
+      healingEvent({ source: 'page', pageElement: 'LoginPage.loginButton' }),
+      healingEvent({ testFile: 'cypress/e2e/deleted.cy.ts' }),
+      healingEvent({ originalLocator: '#elsewhere' }),
+    ])
+
+    expect(located.map((event) => event.line)).to.deep.equal([2, undefined, undefined, undefined])
+  })
+})
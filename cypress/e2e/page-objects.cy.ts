@@ -0,0 +1,55 @@
+/**
+ * Page Object Unit Tests
+ *
+ * Page objects are checked when they are defined, so a duplicate
+ * fingerprint name fails the spec before any element is used.
+ */
+
+import { definePage, getPageElements } from '../support/self-healing'
+
+describe('definePage', () => {
+  it('should name fingerprints after the page and element key', () => {
+    const page = definePage('SearchPage', {
+      searchField: '#search-input',
+      searchButton: { locator: '#search-btn', strategies: ['text'], name: 'searchSubmit' },
+    })
+
+    expect(Object.keys(page)).to.deep.equal(['searchField', 'searchButton'])
+    expect(getPageElements(page)).to.deep.equal([
+      { locator: '#search-input', name: 'SearchPage.searchField' },
+      { locator: '#search-btn', strategies: ['text'], name: 'searchSubmit' },
+    ])
+  })
+
+  it('should reject names defined twice in a page', () => {
+    expect(() =>
+      definePage('ProfilePage', {
+        saveButton: '#save',
+        submitButton: { locator: '#submit', name: 'ProfilePage.saveButton' },
+      })
+    ).to.throw(
+      'Page "ProfilePage" defines the element name(s) "ProfilePage.saveButton" more than once'
+    )
+  })
+
+  it('should reject names another page already defines', () => {
+    definePage('HeaderPage', { logoutButton: { locator: '#logout', name: 'logoutButton' } })
+
+    expect(() =>
+      definePage('MenuPage', { logout: { locator: '.logout', name: 'logoutButton' } })
+    ).to.throw('Page "MenuPage" reuses element names of other pages: "logoutButton" (HeaderPage)')
+  })
+
+  it('should validate locators and options as the page is defined', () => {
+    expect(() => definePage('EmptyPage', { field: '' })).to.throw(
+      'Element "field" of page "EmptyPage" needs a locator'
+    )
+    expect(() =>
+      definePage('TypoPage', { field: { locator: '#field', strategy: ['text'] } as never })
+    ).to.throw('unknown option "strategy"')
+  })
+
+  it('should only accept page objects', () => {
+    expect(() => getPageElements({})).to.throw('Not a page object')
+  })
+})
@@ -6,6 +6,14 @@
  * 2. Subsequent runs can recover from broken locators
  */
 
+import { definePage, locatorStore, SelfHealingEngine } from '../support/self-healing'
+
+const loginPage = definePage('LoginPage', {
+  usernameField: '#username',
+  passwordField: '#password',
+  submitButton: { locator: '#login-btn', strategies: ['data-testid', 'role', 'text'] },
+})
+
 describe('Self-Healing Framework Demo', () => {
   beforeEach(() => {
     cy.visit('/')
@@ -111,6 +119,28 @@ describe('Self-Healing Framework Demo', () => {
         .should('be.visible')
     })
 
+    it('should accept XPath locators', () => {
+      cy.registerForHealing('//*[@id="login-form"]//button[@type="submit"]', 'loginByXPath')
+
+      // Broken XPath heals through the stored fingerprint
+      cy.heal('//*[@id="signin-form"]//button[@type="submit"]', 'loginByXPath')
+        .should('have.attr', 'data-testid', 'login-button')
+    })
+
+    it('should restrict healing to the strategies passed per call', () => {
+      cy.registerForHealing('#username', 'usernameByAllowedStrategy')
+
+      cy.heal('#user-email', 'usernameByAllowedStrategy', { strategies: ['aria-label'] })
+        .should('have.attr', 'aria-label', 'Enter your username')
+    })
+
+    it('should find a form field by its label', () => {
+      cy.registerForHealing('#username', 'usernameByLabel')
+
+      cy.heal('#user-email', 'usernameByLabel', { strategies: ['label'] })
+        .should('have.attr', 'id', 'username')
+    })
+
     it('should find button by text content', () => {
       cy.registerForHealing('button:contains("Login")', 'loginByText')
 
@@ -153,6 +183,181 @@ describe('Self-Healing Framework Demo', () => {
       cy.get('[data-testid="todo-list"] [data-testid="todo-item"]')
         .should('have.length.at.least', 5) // 2 existing + 3 new
     })
+
+    it('should refuse to pick between identical delete buttons', () => {
+      cy.registerForHealing('#todo-list li:first-child .delete-btn', 'firstDeleteButton')
+
+      cy.on('fail', (error) => {
+        expect(error.message).to.contain('is ambiguous')
+        expect(error.message).to.contain('data-testid="delete-todo"')
+        return false
+      })
+
+      cy.heal('#delete-first-todo', 'firstDeleteButton', { timeout: 2000 }).click()
+
+      // Only reached when the heal picked a button; the fail handler rejects this error
+      cy.then(() => {
+        throw new Error('Healed to one of two identical delete buttons')
+      })
+    })
+  })
+
+  describe('Multi-match Locators', () => {
+    const eventsFor = (prefix: string) =>
+      locatorStore.getHealingEvents().filter((event) => event.elementName.startsWith(prefix))
+
+    it('should use the fingerprint to pick one of several matches', () => {
+      cy.registerForHealing('#login-btn', 'submitButton')
+
+      cy.heal('#login-form button', 'submitButton')
+        .should('contain.text', 'Login')
+        .then(() => {
+          const [event] = eventsFor('submitButton')
+          expect(event.primaryMatch).to.equal('disambiguated')
+          expect(event.primaryMatches).to.equal(2)
+        })
+    })
+
+    it('should pick one of several matches without waiting for the grace period', () => {
+      cy.registerForHealing('#login-btn', 'submitButtonNoWait')
+
+      cy.document().then(() => {
+        const engine = new SelfHealingEngine({ healingGracePeriod: 60000 })
+        const query = engine.createHealQuery('#login-form button', 'submitButtonNoWait', {
+          testFile: Cypress.spec.relative,
+          testName: Cypress.currentTest.title,
+        })
+
+        // Throws "waiting ... before self-healing" while the grace period applies
+        expect(query()).to.have.length(1)
+        expect(query().text()).to.contain('Login')
+      })
+    })
+
+    it('should yield every match in collection mode', () => {
+      cy.heal('[data-testid="todo-item"]', 'todoItems', { collection: true })
+        .should('have.length', 2)
+        .then(() => {
+          expect(locatorStore.getFingerprint('todoItems[1]')?.index).to.equal(1)
+          expect(eventsFor('todoItems')).to.have.length(0)
+        })
+    })
+
+    it('should heal each item of a broken collection', () => {
+      cy.registerForHealing('[data-testid="todo-item"]', 'todoItems', { collection: true })
+
+      cy.get('[data-testid="todo-item"]').invoke('removeAttr', 'data-testid')
+
+      cy.heal('[data-testid="todo-item"]', 'todoItems', { collection: true })
+        .should('have.length', 2)
+        .first()
+        .should('contain.text', 'Sample task 1')
+        .then(() => {
+          expect(eventsFor('todoItems').map((event) => event.primaryMatch)).to.deep.equal([
+            'collection',
+            'collection',
+          ])
+        })
+    })
+  })
+
+  describe('Shadow DOM Components', () => {
+    it('should find elements inside <my-button> with a plain locator', () => {
+      cy.heal('#ds-save-btn', 'dsSaveButton').click()
+
+      cy.get('#ds-message').should('contain', 'Save clicked')
+    })
+
+    it('should heal an element inside a shadow root', () => {
+      cy.registerForHealing('#ds-save-btn', 'dsSaveButton')
+
+      // Both components render the same data-testid internally
+      cy.get('[data-testid="ds-save"]').shadow().find('button').invoke('removeAttr', 'id')
+
+      cy.heal('#ds-save-btn', 'dsSaveButton')
+        .should('have.text', 'Save')
+        .click()
+        .then(() => {
+          const [event] = locatorStore
+            .getHealingEvents()
+            .filter((e) => e.elementName === 'dsSaveButton')
+          expect(event.strategy).to.equal('data-testid')
+        })
+
+      cy.get('#ds-message').should('contain', 'Save clicked')
+    })
+  })
+
+  describe('Same-origin Iframes', () => {
+    const paymentFrame = () =>
+      cy.get('#payment-frame').its('0.contentDocument.body').should('not.be.empty').then(cy.wrap)
+
+    const eventsFor = (elementName: string) =>
+      locatorStore.getHealingEvents().filter((event) => event.elementName === elementName)
+
+    it('should find elements inside a frame', () => {
+      cy.heal('#card-number', 'cardNumber', { frame: '#payment-frame' }).type('4242424242424242')
+
+      cy.heal('#pay-btn', 'payButton', { frame: '#payment-frame' }).click()
+
+      paymentFrame().find('#payment-message').should('have.text', 'Payment accepted')
+    })
+
+    it('should heal an element inside a frame and report the frame', () => {
+      cy.registerForHealing('#pay-btn', 'payButton', { frame: '#payment-frame' })
+
+      paymentFrame().find('#pay-btn').invoke('removeAttr', 'id')
+
+      cy.heal('#pay-btn', 'payButton', { frame: '#payment-frame' })
+        .should('have.text', 'Pay')
+        .then(() => {
+          const [event] = eventsFor('payButton')
+          expect(event.frame).to.deep.equal(['#payment-frame'])
+          expect(locatorStore.getFingerprint('payButton')?.framePath).to.deep.equal([
+            '#payment-frame',
+          ])
+        })
+    })
+
+    it('should heal a broken frame locator', () => {
+      // Heal events last for the whole spec, so the element gets a name of its own
+      cy.registerForHealing('#pay-btn', 'framedPayButton', { frame: '#payment-frame' })
+
+      cy.get('#payment-frame').invoke('removeAttr', 'id')
+
+      cy.heal('#pay-btn', 'framedPayButton', { frame: '#payment-frame' })
+        .should('have.text', 'Pay')
+        .then(() => {
+          const [frameEvent] = eventsFor('frame:#payment-frame')
+          expect(frameEvent.strategy).to.equal('data-testid')
+          expect(eventsFor('framedPayButton')).to.have.length(0)
+        })
+    })
+  })
+
+  describe('Retry-ability', () => {
+    it('should wait for a late-rendered element instead of healing to another one', () => {
+      // Fingerprint points at an existing button that healing could wrongly pick
+      cy.registerForHealing('#reset-btn', 'lateButton')
+
+      cy.window().then((win) => {
+        win.setTimeout(() => {
+          const button = win.document.createElement('button')
+          button.id = 'late-btn'
+          button.textContent = 'Late'
+          win.document.body.appendChild(button)
+        }, 500)
+      })
+
+      cy.heal('#late-btn', 'lateButton')
+        .should('have.text', 'Late')
+        .then(() => {
+          const heals = locatorStore
+            .getHealingEvents()
+            .filter((event) => event.elementName === 'lateButton')
+          expect(heals).to.have.length(0)
+        })
+    })
   })
 
   describe('Confidence Threshold Behavior', () => {
@@ -173,6 +378,24 @@ describe('Self-Healing Framework Demo', () => {
     })
   })
 
+  describe('Page Objects', () => {
+    it('should register a page object in one call and heal its elements', () => {
+      cy.healAll(loginPage)
+
+      loginPage.usernameField().type('testuser').should('have.value', 'testuser')
+      loginPage.passwordField().type('secret').should('have.value', 'secret')
+      loginPage.submitButton().should('be.visible')
+    })
+
+    it('should heal a page element whose locator broke', () => {
+      cy.healAll(loginPage)
+
+      cy.get('#login-btn').invoke('removeAttr', 'id')
+
+      loginPage.submitButton().should('contain', 'Login')
+    })
+  })
+
   describe('Report Generation', () => {
     it('should generate healing report at end of test run', () => {
       // Perform some operations that may trigger healing
@@ -0,0 +1,134 @@
+/**
+ * SimilarityScorer Unit Tests
+ *
+ * The similarity score is a weighted average of named features,
+ * so apps can reweigh, replace or add features without forking the matcher.
+ */
+
+import {
+  BUILT_IN_FEATURE_NAMES,
+  captureElementFingerprint,
+  defineFeature,
+  ElementMatcher,
+  exactMatch,
+  pathSimilarity,
+  SimilarityScorer,
+} from '../support/self-healing'
+import { createFakeRoot } from '../support/test-helpers'
+
+describe('SimilarityScorer', () => {
+  const root = createFakeRoot(
+    '<button id="save" data-i18n="actions.save" aria-label="Save">Save</button>' +
+      '<button id="translated" data-i18n="actions.save" aria-label="Speichern">Speichern</button>'
+  )
+  const fingerprint = captureElementFingerprint(
+    root.getElementById('save') as HTMLElement,
+    'saveButton',
+    '#save'
+  )
+  const { attributes } = fingerprint
+  const translated = root.getElementById('translated') as HTMLElement
+
+  it('should break the score down into feature contributions', () => {
+    const scorer = new SimilarityScorer()
+    const breakdown = scorer.explain(translated, attributes)
+    const total = breakdown.reduce((sum, feature) => sum + feature.contribution, 0)
+
+    expect(breakdown.map((feature) => feature.feature)).to.include.members(['text', 'ariaLabel'])
+    expect(breakdown.find((feature) => feature.feature === 'ariaLabel')?.similarity).to.equal(0)
+    expect(scorer.score(translated, attributes)).to.be.closeTo(total, 1e-9)
+  })
+
+  it('should leave out features whose weight is overridden to 0', () => {
+    const scorer = new SimilarityScorer({ text: 0, ariaLabel: 0 })
+    const features = scorer.explain(translated, attributes).map((feature) => feature.feature)
+
+    expect(features).to.not.include('text')
+    expect(features).to.not.include('ariaLabel')
+    expect(scorer.score(translated, attributes)).to.be.greaterThan(
+      new SimilarityScorer().score(translated, attributes)
+    )
+  })
+
+  it('should score with registered features', () => {
+    const scorer = new SimilarityScorer({ text: 0, ariaLabel: 0 })
+    scorer.register(
+      defineFeature<string>({
+        name: 'i18nKey',
+        weight: 0.5,
+        fromFingerprint: (target) => target.dataAttributes?.['data-i18n'],
+        fromElement: (element) => element.getAttribute('data-i18n') || '',
+        compare: exactMatch,
+      })
+    )
+
+    const matcher = new ElementMatcher(0.6, 5, 0.05, scorer)
+    const [candidate] = matcher.pickElement(fingerprint, [translated]).candidates
+
+    expect(candidate.breakdown?.find((feature) => feature.feature === 'i18nKey')).to.include({
+      similarity: 1,
+      weight: 0.5,
+    })
+  })
+
+  it('should map scores to probabilities once calibrated', () => {
+    const scorer = new SimilarityScorer()
+    const similarity = scorer.score(translated, attributes)
+    scorer.setCalibration({ slope: 6, intercept: -3 })
+
+    expect(scorer.score(translated, attributes)).to.be.closeTo(
+      1 / (1 + Math.exp(-(6 * similarity - 3))),
+      1e-9
+    )
+    expect(scorer.calibrate(0)).to.equal(0)
+  })
+
+  it('should turn off features the calibration weighted 0', () => {
+    const scorer = new SimilarityScorer({ ariaLabel: 0.2 })
+    scorer.setCalibratedWeights({
+      ...Object.fromEntries(BUILT_IN_FEATURE_NAMES.map((name) => [name, 0])),
+      text: 0.5,
+      dataAttributes: 0.5,
+    })
+
+    const weights = scorer
+      .explain(translated, attributes)
+      .map((feature) => [feature.feature, feature.weight])
+
+    expect(Object.fromEntries(weights)).to.deep.equal({
+      text: 0.5,
+      dataAttributes: 0.5,
+      ariaLabel: 0.2,
+    })
+  })
+
+  it('should keep the weight of features registered after calibrating', () => {
+    const scorer = new SimilarityScorer()
+    scorer.setCalibratedWeights({ text: 0.5, dataAttributes: 0.5 })
+    scorer.register(
+      defineFeature<string>({
+        name: 'i18nKey',
+        weight: 0.4,
+        fromFingerprint: (target) => target.dataAttributes?.['data-i18n'],
+        fromElement: (element) => element.getAttribute('data-i18n') || '',
+        compare: exactMatch,
+      })
+    )
+
+    const i18nKey = scorer
+      .explain(translated, attributes)
+      .find((feature) => feature.feature === 'i18nKey')
+
+    expect(i18nKey).to.include({ weight: 0.4, similarity: 1 })
+  })
+
+  it('should compare ancestor chains by edit distance', () => {
+    const form = { tagName: 'form', id: 'login-form' }
+    const group = { tagName: 'div', className: 'form-group' }
+
+    expect(pathSimilarity([group, form], [group, form])).to.equal(1)
+    expect(pathSimilarity([group, { tagName: 'form' }], [group, form])).to.equal(0.875)
+    expect(pathSimilarity([group, { tagName: 'section' }], [group, form])).to.equal(0.5)
+    expect(pathSimilarity([form], [group, form])).to.equal(0.5)
+  })
+})
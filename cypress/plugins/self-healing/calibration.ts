@@ -0,0 +1,252 @@
+import {
+  FeatureScore,
+  HealingEvent,
+  HealingStrategy,
+  HealLabel,
+  LocatorStoreSnapshot,
+  ScoringCalibration,
+} from '../../support/self-healing/types'
+import { BUILT_IN_FEATURE_NAMES } from '../../support/self-healing/similarity-scorer'
+import { readJson, writeJsonAtomic } from './file-lock'
+
+/**
+ * One scored candidate and whether it was the right element
+ */
+export interface CalibrationSample {
+  /** Similarity of each feature that applied to the candidate */
+  similarities: Record<string, number>
+  correct: boolean
+}
+
+const MIN_SAMPLES = 20
+// How many observed heals the confidence a strategy had before calibration is worth
+const PRIOR_STRENGTH = 5
+const ITERATIONS = 2000
+const LEARNING_RATE = 0.5
+const L2_PENALTY = 0.01
+
+/**
+ * Reads the calibration written by `npm run healing:calibrate`, or null before the first one
+ */
+export function readCalibration(filePath: string): ScoringCalibration | null {
+  return readJson<ScoringCalibration | null>(filePath, null)
+}
+
+export function writeCalibration(filePath: string, calibration: ScoringCalibration): void {
+  writeJsonAtomic(filePath, calibration)
+}
+
+/**
+ * Reads human verdicts on heals: `[{ elementName, healedLocator, correct }]`
+ */
+export function readHealLabels(filePath: string): HealLabel[] {
+  return readJson<HealLabel[]>(filePath, [])
+}
+
+/**
+ * Turns the healing history into labelled candidates
+ * A heal nobody rejected counts as correct, and the runner-ups it beat as wrong
+ */
+export function collectCalibrationSamples(
+  store: LocatorStoreSnapshot,
+  labels: HealLabel[]
+): CalibrationSample[] {
+  const runnerUps = new Map<string, FeatureScore[][]>()
+  ;(store.healingAttempts || []).forEach((attempt) => {
+    const breakdowns = attempt.runnerUps
+      .map((candidate) => candidate.breakdown)
+      .filter((breakdown): breakdown is FeatureScore[] => !!breakdown)
+    runnerUps.set(attemptKey(attempt), breakdowns)
+  })
+
+  const samples: CalibrationSample[] = []
+
+  store.healingEvents.forEach((event) => {
+    const correct = isCorrect(event, labels)
+
+    if (event.breakdown) {
+      samples.push(toSample(event.breakdown, correct))
+    }
+    if (correct) {
+      ;(runnerUps.get(attemptKey(event)) || []).forEach((breakdown) =>
+        samples.push(toSample(breakdown, false))
+      )
+    }
+  })
+
+  return samples
+}
+
+/**
+ * Fits similarity feature weights and their probability mapping with logistic regression,
+ * and each strategy's confidence from how often its heals were correct
+ */
+export function calibrateScoring(
+  store: LocatorStoreSnapshot,
+  labels: HealLabel[]
+): ScoringCalibration {
+  const samples = collectCalibrationSamples(store, labels)
+  const correct = samples.filter((sample) => sample.correct).length
+
+  if (samples.length < MIN_SAMPLES || correct === 0 || correct === samples.length) {
+    throw new Error(
+      `Not enough healing history to calibrate: need ${MIN_SAMPLES} scored candidates, ` +
+        `both correct and wrong (found ${samples.length}, ${correct} correct)`
+    )
+  }
+
+  const outcomes = samples.map((sample) => (sample.correct ? 1 : 0))
+  const features = Array.from(
+    new Set(samples.flatMap((sample) => Object.keys(sample.similarities)))
+  ).sort()
+
+  // Centered, so a feature the fingerprint has no value for pulls neither way
+  const rows = samples.map((sample) =>
+    features.map((feature) =>
+      feature in sample.similarities ? sample.similarities[feature] - 0.5 : 0
+    )
+  )
+  const { coefficients } = fitLogisticRegression(rows, outcomes)
+
+  // The scorer averages similarities, so a feature can only count for or not at all
+  const positive = coefficients.map((coefficient) => Math.max(coefficient, 0))
+  const total = positive.reduce((sum, coefficient) => sum + coefficient, 0)
+  if (total === 0) {
+    throw new Error('No similarity feature tells correct heals from wrong ones')
+  }
+
+  // Features no sample had a value for are written as 0, so the defaults don't fill them in
+  const featureWeights: Record<string, number> = {}
+  BUILT_IN_FEATURE_NAMES.forEach((feature) => {
+    featureWeights[feature] = 0
+  })
+  features.forEach((feature, index) => {
+    featureWeights[feature] = round(positive[index] / total)
+  })
+
+  const scores = samples.map((sample) => [weightedSimilarity(sample, featureWeights)])
+  const platt = fitLogisticRegression(scores, outcomes)
+
+  return {
+    generatedAt: new Date().toISOString(),
+    samples: samples.length,
+    featureWeights,
+    platt: { slope: round(platt.coefficients[0]), intercept: round(platt.intercept) },
+    strategyConfidence: calibrateStrategies(store.healingEvents, labels),
+  }
+}
+
+/**
+ * Batch gradient descent on the L2-regularized log loss
+ */
+export function fitLogisticRegression(
+  rows: number[][],
+  outcomes: number[]
+): { coefficients: number[]; intercept: number } {
+  const coefficients = new Array<number>(rows[0]?.length || 0).fill(0)
+  let intercept = 0
+  if (rows.length === 0) {
+    return { coefficients, intercept }
+  }
+
+  for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+    const gradient = new Array<number>(coefficients.length).fill(0)
+    let interceptGradient = 0
+
+    rows.forEach((row, index) => {
+      const error = sigmoid(intercept + dot(coefficients, row)) - outcomes[index]
+      row.forEach((value, feature) => {
+        gradient[feature] += error * value
+      })
+      interceptGradient += error
+    })
+
+    coefficients.forEach((coefficient, feature) => {
+      coefficients[feature] -=
+        LEARNING_RATE * (gradient[feature] / rows.length + L2_PENALTY * coefficient)
+    })
+    intercept -= (LEARNING_RATE * interceptGradient) / rows.length
+  }
+
+  return { coefficients, intercept }
+}
+
+/**
+ * Share of correct heals per locator strategy, smoothed towards the confidence it had
+ * Only labelled heals count: an unlabelled heal says the strategy was used, not that it was
+ * right, so a strategy without labelled heals keeps its confidence
+ * Similarity heals are left out: their confidence comes from the calibrated score
+ */
+function calibrateStrategies(
+  events: HealingEvent[],
+  labels: HealLabel[]
+): Partial<Record<HealingStrategy, number>> {
+  const confidences: Partial<Record<HealingStrategy, number>> = {}
+  const strategies = new Set(events.map((event) => event.strategy))
+  strategies.delete('similarity')
+
+  strategies.forEach((strategy) => {
+    const heals = events.filter((event) => event.strategy === strategy)
+    const verdicts = heals
+      .map((event) => findLabel(event, labels))
+      .filter((label): label is HealLabel => label !== undefined)
+    if (verdicts.length === 0) {
+      return
+    }
+
+    const prior = heals.reduce((sum, event) => sum + event.confidence, 0) / heals.length
+    const correct = verdicts.filter((label) => label.correct).length
+
+    confidences[strategy] = round(
+      (correct + PRIOR_STRENGTH * prior) / (verdicts.length + PRIOR_STRENGTH)
+    )
+  })
+
+  return confidences
+}
+
+function weightedSimilarity(sample: CalibrationSample, weights: Record<string, number>): number {
+  let score = 0
+  let totalWeight = 0
+
+  Object.entries(sample.similarities).forEach(([feature, similarity]) => {
+    score += similarity * (weights[feature] || 0)
+    totalWeight += weights[feature] || 0
+  })
+
+  return totalWeight > 0 ? score / totalWeight : 0
+}
+
+function isCorrect(event: HealingEvent, labels: HealLabel[]): boolean {
+  return findLabel(event, labels)?.correct ?? true
+}
+
+function findLabel(event: HealingEvent, labels: HealLabel[]): HealLabel | undefined {
+  return labels.find(
+    (l) => l.elementName === event.elementName && l.healedLocator === event.healedLocator
+  )
+}
+
+function toSample(breakdown: FeatureScore[], correct: boolean): CalibrationSample {
+  return {
+    similarities: Object.fromEntries(breakdown.map((f) => [f.feature, f.similarity])),
+    correct,
+  }
+}
+
+// An accepted heal and its attempt share the timestamp
+function attemptKey(item: { timestamp: Date; elementName: string }): string {
+  return `${new Date(item.timestamp).toISOString()}|${item.elementName}`
+}
+
+function sigmoid(value: number): number {
+  return 1 / (1 + Math.exp(-value))
+}
+
+function dot(a: number[], b: number[]): number {
+  return a.reduce((sum, value, index) => sum + value * b[index], 0)
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000
+}
@@ -0,0 +1,84 @@
+import * as fs from 'fs'
+import * as path from 'path'
+
+const LOCK_RETRY_MS = 50
+const LOCK_TIMEOUT_MS = 10000
+const STALE_LOCK_MS = 30000
+
+/**
+ * Runs a read-modify-write operation while holding an exclusive lock file,
+ * so parallel Cypress processes sharing the same file don't lose each other's writes
+ */
+export async function withFileLock<T>(filePath: string, operation: () => T): Promise<T> {
+  const lockPath = `${filePath}.lock`
+  const startedAt = Date.now()
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true })
+
+  for (;;) {
+    try {
+      fs.closeSync(fs.openSync(lockPath, 'wx'))
+      break
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error
+      }
+
+      // A crashed process may have left its lock behind
+      if (isStale(lockPath)) {
+        fs.rmSync(lockPath, { force: true })
+        continue
+      }
+
+      if (Date.now() - startedAt > LOCK_TIMEOUT_MS) {
+        throw new Error(`Timed out waiting for lock on ${filePath}`)
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS))
+    }
+  }
+
+  try {
+    return operation()
+  } finally {
+    fs.rmSync(lockPath, { force: true })
+  }
+}
+
+/**
+ * Writes JSON through a temporary file and rename, so readers never see a partial file
+ */
+export function writeJsonAtomic(filePath: string, data: unknown): void {
+  const tempPath = `${filePath}.${process.pid}.tmp`
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true })
+  fs.writeFileSync(tempPath, JSON.stringify(data, null, 2))
+  fs.renameSync(tempPath, filePath)
+}
+
+/**
+ * Writes a report file, creating its directory first
+ */
+export function writeReportFile(filePath: string, content: string): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true })
+  fs.writeFileSync(filePath, content)
+}
+
+/**
+ * Reads a JSON file, returning the fallback when it doesn't exist yet
+ */
+export function readJson<T>(filePath: string, fallback: T): T {
+  if (!fs.existsSync(filePath)) {
+    return fallback
+  }
+
+  return JSON.parse(fs.readFileSync(filePath, 'utf8')) as T
+}
+
+function isStale(lockPath: string): boolean {
+  try {
+    return Date.now() - fs.statSync(lockPath).mtimeMs > STALE_LOCK_MS
+  } catch {
+    return false
+  }
+}
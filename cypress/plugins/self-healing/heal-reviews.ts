@@ -0,0 +1,166 @@
+import { FingerprintHistory } from '../../support/self-healing/fingerprint-history'
+import {
+  ElementFingerprint,
+  HealLabel,
+  HealReview,
+  HealReviewStatus,
+} from '../../support/self-healing/types'
+import { readJson, withFileLock, writeJsonAtomic } from './file-lock'
+import { mergeIntoLocatorStore, readLocatorStore } from './locator-store-file'
+
+/**
+ * Reads the review queue: pending heals and the decisions taken on earlier ones
+ */
+export function readHealReviews(filePath: string): HealReview[] {
+  return readJson<HealReview[]>(filePath, [])
+}
+
+/**
+ * Queues a heal for review under a lock (see addHealReview)
+ */
+export function queueHealReview(
+  filePath: string,
+  review: Omit<HealReview, 'id'>
+): Promise<HealReview> {
+  return withFileLock(filePath, () => {
+    const { reviews, queued } = addHealReview(readHealReviews(filePath), review)
+    writeJsonAtomic(filePath, reviews)
+    return queued
+  })
+}
+
+/**
+ * Adds a heal to the review queue
+ * A candidate already queued is counted again rather than queued twice; one already decided
+ * is left alone (the decision was taken after this run loaded the queue)
+ */
+export function addHealReview(
+  reviews: HealReview[],
+  review: Omit<HealReview, 'id'>
+): { reviews: HealReview[]; queued: HealReview } {
+  const existing = reviews.find(
+    (r) =>
+      r.elementName === review.elementName &&
+      r.candidate === review.candidate &&
+      r.candidatePath === review.candidatePath
+  )
+
+  if (!existing) {
+    const queued = { ...review, id: nextReviewId(reviews) }
+    return { reviews: [...reviews, queued], queued }
+  }
+
+  if (existing.status !== 'pending') {
+    return { reviews, queued: existing }
+  }
+
+  const queued = {
+    ...existing,
+    ...review,
+    id: existing.id,
+    firstSeen: existing.firstSeen,
+    occurrences: existing.occurrences + review.occurrences,
+  }
+  return { reviews: reviews.map((r) => (r === existing ? queued : r)), queued }
+}
+
+/**
+ * Accepts or rejects a pending heal under a lock (see decideReview)
+ * Accepting also stores the promoted fingerprint (see acceptedFingerprint)
+ */
+export async function decideHealReview(
+  reviewsPath: string,
+  storePath: string,
+  id: string,
+  status: Exclude<HealReviewStatus, 'pending'>,
+  history: FingerprintHistory
+): Promise<HealReview> {
+  const review = await withFileLock(reviewsPath, () => {
+    const decided = decideReview(readHealReviews(reviewsPath), id, status)
+    writeJsonAtomic(reviewsPath, decided.reviews)
+    return decided.review
+  })
+
+  if (status === 'accepted') {
+    const existing = readLocatorStore(storePath).fingerprints.find(
+      (fp) => fp.name === review.elementName
+    )
+    await mergeIntoLocatorStore(storePath, {
+      fingerprints: [acceptedFingerprint(existing, review, history)],
+      healingEvents: [],
+      healingAttempts: [],
+    })
+  }
+
+  return review
+}
+
+/**
+ * Records a reviewer's decision on a pending heal
+ * Rejecting keeps later heals from picking that candidate again
+ */
+export function decideReview(
+  reviews: HealReview[],
+  id: string,
+  status: Exclude<HealReviewStatus, 'pending'>,
+  decidedAt = new Date()
+): { reviews: HealReview[]; review: HealReview } {
+  const pending = reviews.find((r) => r.id === id)
+
+  if (!pending) {
+    throw new Error(`No heal review with id ${id}`)
+  }
+  if (pending.status !== 'pending') {
+    throw new Error(`Heal review ${id} was already ${pending.status}`)
+  }
+
+  const review = { ...pending, status, decidedAt }
+  return { reviews: reviews.map((r) => (r === pending ? review : r)), review }
+}
+
+/**
+ * Fingerprint of an accepted heal: the capture of the healed element becomes the element's
+ * current version, with the locator that healed it tried first
+ */
+export function acceptedFingerprint(
+  existing: ElementFingerprint | undefined,
+  review: HealReview,
+  history: FingerprintHistory
+): ElementFingerprint {
+  return history.register(existing, {
+    ...promoteLocator(review.fingerprint, review.healedLocator),
+    lastSeen: new Date(),
+  })
+}
+
+/**
+ * Review decisions as labels for `npm run healing:calibrate`
+ */
+export function toHealLabels(reviews: HealReview[]): HealLabel[] {
+  return reviews
+    .filter((review) => review.status !== 'pending')
+    .map((review) => ({
+      elementName: review.elementName,
+      healedLocator: review.healedLocator,
+      correct: review.status === 'accepted',
+    }))
+}
+
+/**
+ * Moves the locator that healed the element to the front of its alternatives
+ */
+export function promoteLocator(
+  fingerprint: ElementFingerprint,
+  healedLocator: string
+): ElementFingerprint {
+  const alternativeLocators = fingerprint.alternativeLocators
+    .map((locator) => (locator.value === healedLocator ? { ...locator, priority: 0 } : locator))
+    .sort((a, b) => a.priority - b.priority)
+
+  return { ...fingerprint, alternativeLocators }
+}
+
+function nextReviewId(reviews: HealReview[]): string {
+  const highest = reviews.reduce((max, review) => Math.max(max, Number(review.id) || 0), 0)
+  return String(highest + 1)
+}
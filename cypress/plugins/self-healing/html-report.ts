@@ -0,0 +1,178 @@
+import * as fs from 'fs'
+import { diffAttributes } from '../../support/self-healing/fingerprint-history'
+import { formatPercent, groupBy } from '../../support/self-healing/utils'
+import { HealSnapshot } from '../../support/self-healing/types'
+import { writeReportFile } from './file-lock'
+
+// Moved next to the fingerprint history, which diffs versions the same way
+export { AttributeDiff, diffAttributes } from '../../support/self-healing/fingerprint-history'
+
+/**
+ * Writes the self-contained HTML healing report (screenshots are inlined)
+ */
+export function writeHtmlReport(filePath: string, snapshots: HealSnapshot[]): void {
+  writeReportFile(filePath, generateHtmlReport(snapshots))
+}
+
+/**
+ * Renders the report: heals grouped by spec and test, with a strategy/confidence filter
+ */
+export function generateHtmlReport(snapshots: HealSnapshot[]): string {
+  const strategies = Array.from(new Set(snapshots.map(({ event }) => event.strategy))).sort()
+  const specs = groupBy(snapshots, ({ event }) => event.testFile)
+  const averageConfidence =
+    snapshots.reduce((sum, { event }) => sum + event.confidence, 0) / (snapshots.length || 1)
+
+  const body =
+    snapshots.length === 0
+      ? '<p class="empty">No element needed healing in this run.</p>'
+      : Array.from(specs.entries())
+          .map(([spec, specSnapshots]) => renderSpec(spec, specSnapshots))
+          .join('\n')
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <title>Self-Healing Report</title>
+  <style>${REPORT_STYLES}</style>
+</head>
+<body>
+  <header>
+    <h1>🔧 Self-Healing Report</h1>
+    <p>Generated ${escapeHtml(new Date().toISOString())} · ${snapshots.length} heals in ${specs.size} specs · average confidence ${formatPercent(averageConfidence)}</p>
+  </header>
+  <form class="filters" onsubmit="return false">
+    <label>Strategy
+      <select id="strategy-filter">
+        <option value="">All</option>
+        ${strategies.map((s) => `<option value="${escapeHtml(s)}">${escapeHtml(s)}</option>`).join('')}
+      </select>
+    </label>
+    <label>Confidence ≤ <output id="confidence-value">100%</output>
+      <input id="confidence-filter" type="range" min="0" max="100" value="100">
+    </label>
+  </form>
+  <main>
+${body}
+  </main>
+  <script>${FILTER_SCRIPT}</script>
+</body>
+</html>
+`
+}
+
+function renderSpec(spec: string, snapshots: HealSnapshot[]): string {
+  const tests = groupBy(snapshots, ({ event }) => event.testName)
+
+  return `<section class="spec">
+  <h2>${escapeHtml(spec)}</h2>
+  ${Array.from(tests.entries())
+    .map(
+      ([test, testSnapshots]) => `<div class="test">
+    <h3>${escapeHtml(test)}</h3>
+    ${testSnapshots.map(renderHeal).join('\n')}
+  </div>`
+    )
+    .join('\n')}
+</section>`
+}
+
+function renderHeal(snapshot: HealSnapshot): string {
+  const { event } = snapshot
+  const tags = [
+    event.primaryMatch !== 'broken' && event.primaryMatch,
+    event.ambiguous && 'ambiguous',
+    event.pendingReview && 'pending review',
+    event.frame?.length && `frame: ${event.frame.join(' › ')}`,
+  ].filter((tag): tag is string => typeof tag === 'string')
+
+  const rows = diffAttributes(snapshot.fingerprint, snapshot.current)
+    .map(
+      (diff) => `<tr${diff.changed ? ' class="changed"' : ''}>
+        <th>${escapeHtml(diff.attribute)}</th>
+        <td>${escapeHtml(diff.stored ?? '—')}</td>
+        <td>${escapeHtml(diff.current ?? '—')}</td>
+      </tr>`
+    )
+    .join('')
+
+  const screenshot = embedScreenshot(snapshot.screenshotPath)
+
+  return `<article class="heal" data-strategy="${escapeHtml(event.strategy)}" data-confidence="${(event.confidence * 100).toFixed(1)}">
+      <h4>${escapeHtml(event.elementName)}
+        <span class="badge">${escapeHtml(event.strategy)}</span>
+        <span class="badge">${formatPercent(event.confidence)}</span>
+        ${tags.map((tag) => `<span class="badge warn">${escapeHtml(tag)}</span>`).join('')}
+      </h4>
+      <p><code class="broken">${escapeHtml(event.originalLocator)}</code> → <code>${escapeHtml(event.healedLocator)}</code></p>
+      <div class="compare">
+        <table>
+          <thead><tr><th>Attribute</th><th>Fingerprint</th><th>Healed element</th></tr></thead>
+          <tbody>${rows}</tbody>
+        </table>
+        ${screenshot ? `<img alt="Healed element" src="${screenshot}">` : '<p class="empty">No screenshot</p>'}
+      </div>
+    </article>`
+}
+
+function embedScreenshot(screenshotPath: string | undefined): string | null {
+  if (!screenshotPath || !fs.existsSync(screenshotPath)) {
+    return null
+  }
+
+  return `data:image/png;base64,${fs.readFileSync(screenshotPath).toString('base64')}`
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+const REPORT_STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; margin: 0; background: #f8fafc; color: #0f172a; }
+  header, .filters, main { max-width: 1100px; margin: 0 auto; padding: 0 1.5rem; }
+  header { padding-top: 1.5rem; }
+  .filters { display: flex; gap: 2rem; padding-bottom: 1rem; border-bottom: 1px solid #e2e8f0; }
+  .spec { margin-top: 2rem; }
+  .test { margin-left: 1rem; }
+  .heal { background: white; border: 1px solid #e2e8f0; border-radius: 8px; padding: 1rem; margin: 1rem 0; }
+  .badge { font-size: 0.75rem; background: #e0e7ff; color: #3730a3; border-radius: 999px; padding: 0.1rem 0.6rem; margin-left: 0.4rem; }
+  .badge.warn { background: #fef3c7; color: #92400e; }
+  code.broken { text-decoration: line-through; color: #b91c1c; }
+  .compare { display: flex; gap: 1rem; align-items: flex-start; }
+  table { border-collapse: collapse; font-size: 0.85rem; flex: 1; }
+  th, td { text-align: left; padding: 0.3rem 0.6rem; border-bottom: 1px solid #f1f5f9; word-break: break-all; }
+  tr.changed td { background: #fee2e2; }
+  tr.changed td:last-child { background: #dcfce7; }
+  img { max-width: 320px; border: 1px solid #e2e8f0; border-radius: 4px; }
+  .empty { color: #64748b; font-style: italic; }
+`
+
+// Hides heals that don't match the filters, then groups left empty
+const FILTER_SCRIPT = `
+  const strategyFilter = document.getElementById('strategy-filter');
+  const confidenceFilter = document.getElementById('confidence-filter');
+
+  function applyFilters() {
+    const strategy = strategyFilter.value;
+    const maxConfidence = Number(confidenceFilter.value);
+    document.getElementById('confidence-value').textContent = maxConfidence + '%';
+
+    document.querySelectorAll('.heal').forEach((heal) => {
+      heal.hidden =
+        (strategy && heal.dataset.strategy !== strategy) ||
+        Number(heal.dataset.confidence) > maxConfidence;
+    });
+
+    document.querySelectorAll('.test, .spec').forEach((group) => {
+      group.hidden = !group.querySelector('.heal:not([hidden])');
+    });
+  }
+
+  strategyFilter.addEventListener('change', applyFilters);
+  confidenceFilter.addEventListener('input', applyFilters);
+`
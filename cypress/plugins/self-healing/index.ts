@@ -0,0 +1,13 @@
+/**
+ * Node-side helpers for the Self-Healing Cypress Framework
+ *
+ * Used from setupNodeEvents tasks; nothing here runs in the browser.
+ */
+
+export * from './calibration'
+export * from './file-lock'
+export * from './heal-reviews'
+export * from './html-report'
+export * from './locator-store-file'
+export * from './locator-updater'
+export * from './stability-report'
@@ -0,0 +1,231 @@
+import {
+  ElementFingerprint,
+  FingerprintCandidate,
+  FingerprintVersion,
+  HealingAttempt,
+  HealingEvent,
+  LocatorStoreSnapshot,
+  SelfHealingConfig,
+} from '../../support/self-healing/types'
+import { DEFAULT_CONFIG } from '../../support/self-healing/config'
+import { hasDrifted } from '../../support/self-healing/fingerprint-history'
+import { readJson, withFileLock, writeJsonAtomic } from './file-lock'
+
+const EMPTY_STORE: LocatorStoreSnapshot = {
+  fingerprints: [],
+  healingEvents: [],
+  healingAttempts: [],
+}
+
+/**
+ * Reads the persisted locator store, or an empty store on the first run
+ */
+export function readLocatorStore(filePath: string): LocatorStoreSnapshot {
+  const data = readJson<Partial<LocatorStoreSnapshot>>(filePath, EMPTY_STORE)
+
+  return {
+    fingerprints: data.fingerprints || [],
+    healingEvents: data.healingEvents || [],
+    healingAttempts: data.healingAttempts || [],
+  }
+}
+
+/**
+ * Store limits enforced when writes are merged
+ */
+export type StoreLimits = Pick<SelfHealingConfig, 'storeHistoryLimit' | 'fingerprintHistorySize'>
+
+/**
+ * Merges new or updated data into the store file under a lock
+ * Re-reads the file first, so writes from other processes since our last load are kept
+ */
+export function mergeIntoLocatorStore(
+  filePath: string,
+  changes: LocatorStoreSnapshot,
+  limits: StoreLimits = DEFAULT_CONFIG
+): Promise<LocatorStoreSnapshot> {
+  return withFileLock(filePath, () => {
+    const merged = mergeLocatorStoreData(readLocatorStore(filePath), changes, limits)
+    writeJsonAtomic(filePath, merged)
+    return merged
+  })
+}
+
+/**
+ * Merges two store snapshots
+ * - Fingerprints: merged per element (see mergeFingerprint); the stored heal count grows by
+ *   the incoming heal events it doesn't have yet, so concurrent runs add up
+ * - Healing events and attempts: union of both, de-duplicated, keeping the newest
+ *   storeHistoryLimit of each
+ */
+export function mergeLocatorStoreData(
+  base: LocatorStoreSnapshot,
+  incoming: LocatorStoreSnapshot,
+  limits: StoreLimits = DEFAULT_CONFIG
+): LocatorStoreSnapshot {
+  const fingerprints = new Map<string, ElementFingerprint>()
+  base.fingerprints.forEach((fp) => fingerprints.set(fp.name, fp))
+
+  // Heals recorded since the incoming side loaded the store
+  const storedEvents = new Set(base.healingEvents.map(eventKey))
+  const newHeals = new Map<string, number>()
+  incoming.healingEvents
+    .filter((event) => !storedEvents.has(eventKey(event)))
+    .forEach((event) => {
+      newHeals.set(event.elementName, (newHeals.get(event.elementName) || 0) + 1)
+    })
+
+  incoming.fingerprints.forEach((fp) => {
+    const existing = fingerprints.get(fp.name)
+    fingerprints.set(
+      fp.name,
+      existing
+        ? {
+            ...mergeFingerprint(existing, fp, limits.fingerprintHistorySize),
+            healCount: existing.healCount + (newHeals.get(fp.name) || 0),
+          }
+        : fp
+    )
+  })
+
+  const events = new Map<string, HealingEvent>()
+  ;[...base.healingEvents, ...incoming.healingEvents].forEach((event) => {
+    events.set(eventKey(event), event)
+  })
+
+  const attempts = new Map<string, HealingAttempt>()
+  ;[...(base.healingAttempts || []), ...(incoming.healingAttempts || [])].forEach((attempt) => {
+    attempts.set(eventKey(attempt), attempt)
+  })
+
+  const historyLimit = limits.storeHistoryLimit
+  return {
+    fingerprints: Array.from(fingerprints.values()).sort((a, b) => a.name.localeCompare(b.name)),
+    healingEvents: Array.from(events.values()).sort(byTimestamp).slice(-historyLimit),
+    healingAttempts: Array.from(attempts.values()).sort(byTimestamp).slice(-historyLimit),
+  }
+}
+
+/**
+ * Merges two writes of the same element's fingerprint
+ * The most recently seen capture stays current. Versions only the other writer promoted are
+ * kept before it, renumbered where both writers promoted the same version number, and
+ * candidates both writers observed count each other's observations
+ */
+function mergeFingerprint(
+  existing: ElementFingerprint,
+  incoming: ElementFingerprint,
+  maxVersions: number
+): ElementFingerprint {
+  const [newest, other] =
+    seenAt(incoming) >= seenAt(existing) ? [incoming, existing] : [existing, incoming]
+  const { candidate: _candidate, ...fingerprint } = newest
+  const history = mergeHistory(newest, other, maxVersions)
+  const candidate = mergeCandidate(newest, other)
+
+  return {
+    ...fingerprint,
+    ...(history && { version: history[history.length - 1].version, history }),
+    ...(candidate && { candidate }),
+  }
+}
+
+function mergeHistory(
+  newest: ElementFingerprint,
+  other: ElementFingerprint,
+  maxVersions: number
+): FingerprintVersion[] | undefined {
+  const known = new Set((newest.history || []).map(versionKey))
+  const missing = (other.history || []).filter((version) => !known.has(versionKey(version)))
+
+  if (!newest.history?.length || missing.length === 0) {
+    return newest.history
+  }
+
+  const current = newest.history[newest.history.length - 1]
+  const earlier = [...newest.history.slice(0, -1), ...missing].sort(
+    (a, b) =>
+      new Date(a.capturedAt).getTime() - new Date(b.capturedAt).getTime() || a.version - b.version
+  )
+
+  let last = 0
+  return [...earlier, current]
+    .map((version) => {
+      last = Math.max(last + 1, version.version)
+      return last === version.version ? version : { ...version, version: last }
+    })
+    .slice(-maxVersions)
+}
+
+function mergeCandidate(
+  newest: ElementFingerprint,
+  other: ElementFingerprint
+): FingerprintCandidate | undefined {
+  // Promoting a version drops the pending candidate, so one first observed before the
+  // current version was captured (e.g. before a rollback) is stale
+  const current = newest.history?.[newest.history.length - 1]
+  const otherCandidate =
+    other.candidate && (!current || !isBefore(other.candidate.capturedAt, current.capturedAt))
+      ? other.candidate
+      : undefined
+
+  const candidate = newest.candidate || otherCandidate
+  if (!candidate) {
+    return undefined
+  }
+
+  const twin =
+    newest.candidate &&
+    otherCandidate &&
+    !hasDrifted(newest.candidate.attributes, otherCandidate.attributes)
+      ? otherCandidate
+      : undefined
+
+  // Same first observation: both writers started from the stored candidate, whose
+  // observations they both count. Otherwise they observed the change independently
+  const merged = twin
+    ? {
+        ...candidate,
+        capturedAt: earliest(candidate.capturedAt, twin.capturedAt),
+        observations: sameTime(candidate.capturedAt, twin.capturedAt)
+          ? Math.max(candidate.observations, twin.observations)
+          : candidate.observations + twin.observations,
+      }
+    : candidate
+
+  // The other writer may have promoted the very capture already
+  return hasDrifted(newest.attributes, merged.attributes) ? merged : undefined
+}
+
+function earliest(a: Date, b: Date): Date {
+  return isBefore(b, a) ? b : a
+}
+
+function isBefore(a: Date, b: Date): boolean {
+  return new Date(a).getTime() < new Date(b).getTime()
+}
+
+function sameTime(a: Date, b: Date): boolean {
+  return new Date(a).getTime() === new Date(b).getTime()
+}
+
+function versionKey(version: FingerprintVersion): string {
+  return `${version.runId}|${new Date(version.capturedAt).toISOString()}`
+}
+
+function byTimestamp(a: { timestamp: Date }, b: { timestamp: Date }): number {
+  return new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+}
+
+function seenAt(fingerprint: ElementFingerprint): number {
+  return fingerprint.lastSeen ? new Date(fingerprint.lastSeen).getTime() : 0
+}
+
+function eventKey(event: HealingEvent | HealingAttempt): string {
+  return [
+    new Date(event.timestamp).toISOString(),
+    event.elementName,
+    event.testFile,
+    event.testName,
+  ].join('|')
+}
@@ -0,0 +1,334 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { AutoUpdateMode, HealingEvent, LocatorUpdate } from '../../support/self-healing/types'
+import { groupBy } from '../../support/self-healing/utils'
+
+/**
+ * A single proposed edit to a cy.heal() call in a spec file
+ */
+export interface LocatorEdit {
+  file: string
+  line: number
+  elementName: string
+  originalLocator: string
+  updatedLocator: string
+  before: string
+  after: string
+}
+
+export interface LocatorUpdateResult {
+  edits: LocatorEdit[]
+  /** Updates whose cy.heal() literal could not be found (e.g. locator built at runtime) */
+  skipped: LocatorUpdate[]
+  patchPath?: string
+}
+
+// cy.heal('<locator>', '<elementName>' ... with any quote style
+const HEAL_CALL_PATTERN =
+  /\.heal\(\s*(['"`])((?:\\.|(?!\1)[^\\])*)\1\s*,\s*(['"`])((?:\\.|(?!\3)[^\\])*)\3/g
+
+const DIFF_CONTEXT_LINES = 3
+
+/**
+ * Edits and patch computed for a batch of locator updates, before anything is written
+ */
+export interface LocatorUpdatePlan {
+  edits: LocatorEdit[]
+  skipped: LocatorUpdate[]
+  /** Rewritten source of every spec with at least one edit */
+  contents: Map<string, string>
+  /** Unified diff of every edited spec, empty when nothing changed */
+  patch: string
+}
+
+/**
+ * Computes the edits for a batch of locator updates and applies them according to the mode
+ */
+export function applyLocatorUpdates(
+  projectRoot: string,
+  updates: LocatorUpdate[],
+  mode: AutoUpdateMode,
+  patchPath: string
+): LocatorUpdateResult {
+  const sources = new Map<string, string | null>()
+  updates.forEach(({ testFile }) => {
+    const filePath = path.join(projectRoot, testFile)
+    sources.set(testFile, fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf8') : null)
+  })
+
+  const { edits, skipped, contents, patch } = planLocatorUpdates(sources, updates)
+
+  if (mode === 'apply') {
+    contents.forEach((content, testFile) => {
+      fs.writeFileSync(path.join(projectRoot, testFile), content)
+    })
+  }
+
+  if (mode === 'patch' && patch) {
+    const fullPatchPath = path.join(projectRoot, patchPath)
+    fs.mkdirSync(path.dirname(fullPatchPath), { recursive: true })
+    fs.writeFileSync(fullPatchPath, patch)
+    return { edits, skipped, patchPath }
+  }
+
+  return { edits, skipped }
+}
+
+/**
+ * Computes the edits for a batch of locator updates against the specs' sources, keyed by
+ * path relative to the project root (null for a spec that doesn't exist)
+ */
+export function planLocatorUpdates(
+  sources: Map<string, string | null>,
+  updates: LocatorUpdate[]
+): LocatorUpdatePlan {
+  const edits: LocatorEdit[] = []
+  const skipped: LocatorUpdate[] = []
+  const contents = new Map<string, string>()
+  let patch = ''
+
+  groupBy(dedupeUpdates(updates), (update) => update.testFile).forEach((fileUpdates, testFile) => {
+    const source = sources.get(testFile)
+    if (typeof source !== 'string') {
+      skipped.push(...fileUpdates)
+      return
+    }
+
+    const { content, fileEdits, unmatched } = rewriteHealCalls(source, testFile, fileUpdates)
+
+    edits.push(...fileEdits)
+    skipped.push(...unmatched)
+
+    if (fileEdits.length > 0) {
+      contents.set(testFile, content)
+      patch += createUnifiedDiff(testFile, source, content)
+    }
+  })
+
+  return { edits, skipped, contents, patch }
+}
+
+/**
+ * Replaces the locator literal of every matching cy.heal() call in a spec's source
+ */
+export function rewriteHealCalls(
+  source: string,
+  testFile: string,
+  updates: LocatorUpdate[]
+): { content: string; fileEdits: LocatorEdit[]; unmatched: LocatorUpdate[] } {
+  const lines = source.split('\n')
+  const fileEdits: LocatorEdit[] = []
+  const matched = new Set<LocatorUpdate>()
+
+  const content = source.replace(
+    HEAL_CALL_PATTERN,
+    (call, quote: string, locator: string, nameQuote: string, name: string, offset: number) => {
+      const update = updates.find(
+        (u) =>
+          u.originalLocator === unescapeLiteral(locator) && u.elementName === unescapeLiteral(name)
+      )
+
+      if (!update || (quote === '`' && locator.includes('${'))) {
+        return call
+      }
+
+      matched.add(update)
+      const oldLiteral = `${quote}${locator}${quote}`
+      const newLiteral = toLiteral(update.updatedLocator, quote)
+      const literalOffset = offset + call.indexOf(oldLiteral)
+      const lineIndex = source.slice(0, literalOffset).split('\n').length - 1
+      const lineText = lines[lineIndex]
+
+      fileEdits.push({
+        file: testFile,
+        line: lineIndex + 1,
+        elementName: update.elementName,
+        originalLocator: update.originalLocator,
+        updatedLocator: update.updatedLocator,
+        before: lineText.trim(),
+        after: lineText.replace(oldLiteral, () => newLiteral).trim(),
+      })
+
+      // A function, so `$&` and the like in the new locator aren't replacement patterns
+      return call.replace(oldLiteral, () => newLiteral)
+    }
+  )
+
+  return {
+    content,
+    fileEdits,
+    unmatched: updates.filter((u) => !matched.has(u)),
+  }
+}
+
+/**
+ * Finds the line (1-based) of the first cy.heal() call with this locator and element name
+ */
+export function findHealCallLine(
+  source: string,
+  originalLocator: string,
+  elementName: string
+): number | null {
+  for (const match of source.matchAll(HEAL_CALL_PATTERN)) {
+    const [call, , locator, , name] = match
+    if (unescapeLiteral(locator) === originalLocator && unescapeLiteral(name) === elementName) {
+      const offset = (match.index || 0) + call.indexOf(locator)
+      return source.slice(0, offset).split('\n').length
+    }
+  }
+
+  return null
+}
+
+/**
+ * Fills in the spec line of each event's cy.heal() call, when its literal can be found
+ */
+export function locateHealCalls(projectRoot: string, events: HealingEvent[]): HealingEvent[] {
+  const sources = new Map<string, string | null>()
+
+  events.forEach(({ testFile }) => {
+    if (!sources.has(testFile)) {
+      const filePath = path.join(projectRoot, testFile)
+      sources.set(testFile, fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf8') : null)
+    }
+  })
+
+  return locateHealCallsInSources(sources, events)
+}
+
+/**
+ * locateHealCalls() against the specs' sources, keyed by path relative to the project root
+ * Heals of page objects, frames and auto-captured calls have no cy.heal() call to point at
+ */
+export function locateHealCallsInSources(
+  sources: Map<string, string | null>,
+  events: HealingEvent[]
+): HealingEvent[] {
+  return events.map((event) => {
+    const source = sources.get(event.testFile)
+    const line =
+      source && (event.source || 'heal') === 'heal'
+        ? findHealCallLine(source, event.originalLocator, event.elementName)
+        : null
+
+    return line ? { ...event, line } : event
+  })
+}
+
+/**
+ * Creates a unified diff (git apply compatible) for a file whose line count didn't change
+ */
+export function createUnifiedDiff(file: string, oldText: string, newText: string): string {
+  const oldLines = toLines(oldText)
+  const newLines = toLines(newText)
+  // git apply needs to know when the hunk's last line has no line break
+  const noEol = oldText.length > 0 && !oldText.endsWith('\n')
+  const marker = (i: number) =>
+    noEol && i === oldLines.length - 1 ? '\\ No newline at end of file\n' : ''
+
+  const changed: number[] = []
+  oldLines.forEach((line, i) => {
+    if (line !== newLines[i]) {
+      changed.push(i)
+    }
+  })
+
+  // Group changed lines whose context windows overlap into the same hunk
+  const hunks: Array<{ start: number; end: number }> = []
+  changed.forEach((i) => {
+    const start = Math.max(0, i - DIFF_CONTEXT_LINES)
+    const end = Math.min(oldLines.length - 1, i + DIFF_CONTEXT_LINES)
+    const last = hunks[hunks.length - 1]
+    if (last && start <= last.end + 1) {
+      last.end = end
+    } else {
+      hunks.push({ start, end })
+    }
+  })
+
+  let diff = `diff --git a/${file} b/${file}\n--- a/${file}\n+++ b/${file}\n`
+
+  hunks.forEach(({ start, end }) => {
+    const count = end - start + 1
+    diff += `@@ -${start + 1},${count} +${start + 1},${count} @@\n`
+    for (let i = start; i <= end; i++) {
+      if (oldLines[i] === newLines[i]) {
+        diff += ` ${oldLines[i]}\n${marker(i)}`
+      } else {
+        diff += `-${oldLines[i]}\n${marker(i)}+${newLines[i]}\n${marker(i)}`
+      }
+    }
+  })
+
+  return diff
+}
+
+/**
+ * Formats edits for terminal output
+ */
+export function formatLocatorEdits(result: LocatorUpdateResult, mode: AutoUpdateMode): string {
+  const header: Record<AutoUpdateMode, string> = {
+    apply: '✏️  Locators updated in spec files:',
+    patch: '📝 Locator updates written to patch:',
+    'dry-run': '🔍 Proposed locator updates (dry run, no files changed):',
+  }
+
+  let output = `\n${header[mode]}\n`
+
+  result.edits.forEach((edit) => {
+    output += `   ${edit.file}:${edit.line} (${edit.elementName})\n`
+    output += `     - ${edit.before}\n`
+    output += `     + ${edit.after}\n`
+  })
+
+  if (result.patchPath) {
+    output += `   Review and apply with: git apply ${result.patchPath}\n`
+  }
+
+  result.skipped.forEach((update) => {
+    output += `   ⚠️  No cy.heal('${update.originalLocator}', '${update.elementName}') literal found in ${update.testFile}\n`
+  })
+
+  return output
+}
+
+/**
+ * Keeps the highest-confidence update for each spec/element/locator combination
+ */
+function dedupeUpdates(updates: LocatorUpdate[]): LocatorUpdate[] {
+  const byKey = new Map<string, LocatorUpdate>()
+
+  updates.forEach((update) => {
+    const key = `${update.testFile}|${update.elementName}|${update.originalLocator}`
+    const existing = byKey.get(key)
+    if (!existing || update.confidence > existing.confidence) {
+      byKey.set(key, update)
+    }
+  })
+
+  return Array.from(byKey.values())
+}
+
+/**
+ * Splits a file into its lines; the break ending the last line doesn't start another one
+ */
+function toLines(text: string): string[] {
+  const lines = text.split('\n')
+  return text.endsWith('\n') ? lines.slice(0, -1) : lines
+}
+
+function unescapeLiteral(value: string): string {
+  return value.replace(/\\(.)/g, '$1')
+}
+
+/**
+ * Writes a value as a JS string literal with the given quote, as it appears in spec sources
+ */
+export function toLiteral(value: string, quote: string): string {
+  let escaped = value.replace(/\\/g, '\\\\').split(quote).join(`\\${quote}`)
+  if (quote === '`') {
+    // Would start a placeholder in a template literal
+    escaped = escaped.split('${').join('\\${')
+  }
+  return `${quote}${escaped}${quote}`
+}
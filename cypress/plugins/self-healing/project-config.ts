@@ -0,0 +1,41 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import * as ts from 'typescript'
+import { resolveConfig } from '../../support/self-healing/config'
+import { SelfHealingConfig } from '../../support/self-healing/types'
+
+type CompilableModule = NodeJS.Module & { _compile(code: string, filename: string): void }
+
+/**
+ * Reads env.selfHealing from the project's Cypress config file, so the command-line scripts
+ * work on the same files and limits as the test run
+ * The file and the TypeScript modules it imports are transpiled on the fly; without a config
+ * file, the defaults apply
+ */
+export function readProjectConfig(configFile: string): SelfHealingConfig {
+  if (!fs.existsSync(configFile)) {
+    return resolveConfig(undefined)
+  }
+
+  const extensions = require.extensions
+  const previous = extensions['.ts']
+  extensions['.ts'] = (module, filename) => {
+    const { outputText } = ts.transpileModule(fs.readFileSync(filename, 'utf8'), {
+      compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 },
+      fileName: filename,
+    })
+    ;(module as CompilableModule)._compile(outputText, filename)
+  }
+
+  try {
+    const exported = require(path.resolve(configFile))
+    const config = exported.default ?? exported
+    return resolveConfig(config.e2e?.env?.selfHealing ?? config.env?.selfHealing)
+  } finally {
+    if (previous) {
+      extensions['.ts'] = previous
+    } else {
+      delete extensions['.ts']
+    }
+  }
+}
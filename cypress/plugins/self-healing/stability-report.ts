@@ -0,0 +1,128 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { LocatorFinding } from '../../support/self-healing/locator-stability'
+import { toLiteral } from './locator-updater'
+
+/**
+ * A line of a spec that uses a locator; `line` is absent when only the spec is known
+ */
+export interface CallSite {
+  file: string
+  line?: number
+}
+
+export interface StabilityReportEntry extends LocatorFinding {
+  callSites: CallSite[]
+}
+
+const SPEC_EXTENSIONS = ['.ts', '.js', '.tsx', '.jsx']
+
+/**
+ * Reads the sources of every spec under a directory, keyed by path relative to the project root
+ */
+export function readSpecSources(projectRoot: string, specDir: string): Map<string, string> {
+  const sources = new Map<string, string>()
+
+  const walk = (dir: string) => {
+    if (!fs.existsSync(dir)) {
+      return
+    }
+
+    fs.readdirSync(dir, { withFileTypes: true }).forEach((entry) => {
+      const filePath = path.join(dir, entry.name)
+      if (entry.isDirectory()) {
+        walk(filePath)
+      } else if (SPEC_EXTENSIONS.includes(path.extname(entry.name))) {
+        const file = path.relative(projectRoot, filePath).split(path.sep).join('/')
+        sources.set(file, fs.readFileSync(filePath, 'utf8'))
+      }
+    })
+  }
+
+  walk(path.join(projectRoot, specDir))
+  return sources
+}
+
+/**
+ * Finds the lines of the specs where the locator is written as a string literal, whether in
+ * cy.heal(), cy.registerForHealing(), cy.get() or a page object definition
+ * Lines that also name the element are preferred, as other tests may share the locator
+ */
+export function findLocatorCallSites(
+  sources: Map<string, string>,
+  locator: string,
+  elementName: string
+): CallSite[] {
+  const literals = ["'", '"', '`'].map((quote) => toLiteral(locator, quote))
+  const callSites: Array<CallSite & { named: boolean }> = []
+
+  sources.forEach((source, file) => {
+    source.split('\n').forEach((text, index) => {
+      if (literals.some((literal) => text.includes(literal))) {
+        callSites.push({ file, line: index + 1, named: text.includes(elementName) })
+      }
+    })
+  })
+
+  const named = callSites.filter((site) => site.named)
+  return (named.length > 0 ? named : callSites).map(({ file, line }) => ({ file, line }))
+}
+
+/**
+ * Attaches call sites to the analyzer's findings
+ * A locator found in no spec (built at runtime, auto-captured) falls back to the specs the
+ * element was healed in
+ */
+export function locateFindings(
+  findings: LocatorFinding[],
+  sources: Map<string, string>
+): StabilityReportEntry[] {
+  return findings.map((finding) => {
+    const callSites = findLocatorCallSites(sources, finding.primaryLocator, finding.elementName)
+    return {
+      ...finding,
+      callSites: callSites.length > 0 ? callSites : finding.testFiles.map((file) => ({ file })),
+    }
+  })
+}
+
+/**
+ * Formats the analysis for terminal output: fragile locators with their suggested replacement,
+ * then the elements the frontend team could give a data-testid
+ */
+export function formatStabilityReport(entries: StabilityReportEntry[]): string {
+  const fragile = entries.filter((entry) => entry.issues.length > 0)
+  const untagged = entries.filter((entry) => entry.missingTestId)
+
+  let output = `\n🔍 Locator stability: ${fragile.length} fragile locator(s), `
+  output += `${untagged.length} element(s) without data-testid or data-cy\n`
+
+  fragile.forEach((entry) => {
+    const issues = entry.issues.map((issue) =>
+      issue === 'healed' ? `healed ${entry.heals}×` : issue
+    )
+    output += `\n⚠️  ${entry.elementName} (${issues.join(', ')})\n`
+    output += `     at:        ${formatCallSites(entry.callSites)}\n`
+    output += `     current:   ${entry.primaryLocator}\n`
+    output += entry.suggestedLocator
+      ? `     suggested: ${entry.suggestedLocator} (${entry.suggestedStrategy})\n`
+      : `     suggested: none stored, add a data-testid\n`
+  })
+
+  if (untagged.length > 0) {
+    output += `\n🏷️  Elements without data-testid or data-cy:\n`
+    untagged.forEach((entry) => {
+      output += `   ${entry.elementName}: ${entry.element} (${formatCallSites(entry.callSites)})\n`
+    })
+  }
+
+  return output
+}
+
+function formatCallSites(callSites: CallSite[]): string {
+  if (callSites.length === 0) {
+    return 'no call site found'
+  }
+
+  return callSites.map((site) => (site.line ? `${site.file}:${site.line}` : site.file)).join(', ')
+}
@@ -0,0 +1,66 @@
+/**
+ * Flags fragile primary locators in the locator store and suggests stable replacements
+ *
+ *   npm run healing:analyze -- [--store <path>] [--specs <dir>] [--out <path>] [--config <path>]
+ *
+ * Runs over every stored fingerprint and the healing history. Each fragile locator
+ * (positional, class-only, long text, or healed before) is reported with its call sites
+ * in the specs and the most stable alternative stored for the element. Elements without
+ * a data-testid or data-cy attribute are listed for the frontend team. With --out, the
+ * findings are also written as JSON. The store defaults to env.selfHealing's storePath in the
+ * Cypress config file (--config, cypress.config.ts by default).
+ */
+
+import * as path from 'path'
+import {
+  formatStabilityReport,
+  locateFindings,
+  readLocatorStore,
+  readSpecSources,
+  writeReportFile,
+} from '../plugins/self-healing'
+import { readProjectConfig } from '../plugins/self-healing/project-config'
+import { analyzeLocatorStability } from '../support/self-healing/locator-stability'
+
+const DEFAULT_SPECS_DIR = 'cypress/e2e'
+
+function main(argv: string[]): void {
+  const options: Record<string, string> = {
+    store: '',
+    specs: DEFAULT_SPECS_DIR,
+    out: '',
+    config: 'cypress.config.ts',
+  }
+
+  for (let index = 0; index < argv.length; index += 2) {
+    const name = argv[index].replace(/^--/, '')
+    if (!(name in options) || argv[index + 1] === undefined) {
+      throw new Error(
+        'Usage: analyze-locators [--store <path>] [--specs <dir>] [--out <path>] [--config <path>]'
+      )
+    }
+    options[name] = argv[index + 1]
+  }
+
+  const projectRoot = process.cwd()
+  const config = readProjectConfig(path.resolve(projectRoot, options.config))
+  const store = readLocatorStore(path.resolve(projectRoot, options.store || config.storePath))
+  const entries = locateFindings(
+    analyzeLocatorStability(store.fingerprints, store.healingEvents),
+    readSpecSources(projectRoot, options.specs)
+  )
+
+  console.log(formatStabilityReport(entries))
+
+  if (options.out) {
+    writeReportFile(path.resolve(projectRoot, options.out), JSON.stringify(entries, null, 2))
+    console.log(`📄 Findings written to ${options.out}`)
+  }
+}
+
+try {
+  main(process.argv.slice(2))
+} catch (error) {
+  console.error(`❌ ${(error as Error).message}`)
+  process.exitCode = 1
+}
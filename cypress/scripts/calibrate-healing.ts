@@ -0,0 +1,75 @@
+/**
+ * Fits the matcher's weights to the persisted healing history
+ *
+ *   npm run healing:calibrate -- [--store <path>] [--labels <path>] [--reviews <path>]
+ *                                [--out <path>] [--config <path>]
+ *
+ * Paths are relative to the project root and default to the env.selfHealing settings of
+ * the Cypress config file (--config, cypress.config.ts by default).
+ * Accepted and rejected heals of the review queue count as labels too.
+ * The engine loads the written file from calibrationPath on the next run.
+ */
+
+import * as path from 'path'
+import {
+  calibrateScoring,
+  readHealLabels,
+  readHealReviews,
+  readLocatorStore,
+  toHealLabels,
+  writeCalibration,
+} from '../plugins/self-healing'
+import { readProjectConfig } from '../plugins/self-healing/project-config'
+
+const DEFAULT_LABELS_PATH = 'cypress/healing/heal-labels.json'
+
+function main(argv: string[]): void {
+  const options: Record<string, string> = {
+    store: '',
+    labels: DEFAULT_LABELS_PATH,
+    reviews: '',
+    out: '',
+    config: 'cypress.config.ts',
+  }
+
+  for (let index = 0; index < argv.length; index += 2) {
+    const name = argv[index].replace(/^--/, '')
+    if (!(name in options) || argv[index + 1] === undefined) {
+      throw new Error(
+        'Usage: calibrate-healing [--store <path>] [--labels <path>] [--reviews <path>] ' +
+          '[--out <path>] [--config <path>]'
+      )
+    }
+    options[name] = argv[index + 1]
+  }
+
+  const resolve = (file: string) => path.resolve(process.cwd(), file)
+  const config = readProjectConfig(resolve(options.config))
+  const out = options.out || config.calibrationPath
+  const store = readLocatorStore(resolve(options.store || config.storePath))
+  const calibration = calibrateScoring(store, [
+    ...readHealLabels(resolve(options.labels)),
+    ...toHealLabels(readHealReviews(resolve(options.reviews || config.reviewQueuePath))),
+  ])
+  writeCalibration(resolve(out), calibration)
+
+  console.log(`📐 Calibrated on ${calibration.samples} scored candidates → ${out}`)
+  console.log('Feature weights:')
+  Object.entries(calibration.featureWeights).forEach(([feature, weight]) => {
+    console.log(`  ${feature}: ${weight}`)
+  })
+  console.log(
+    `Probability curve: slope ${calibration.platt.slope}, intercept ${calibration.platt.intercept}`
+  )
+  console.log('Strategy confidence:')
+  Object.entries(calibration.strategyConfidence).forEach(([strategy, confidence]) => {
+    console.log(`  ${strategy}: ${confidence}`)
+  })
+}
+
+try {
+  main(process.argv.slice(2))
+} catch (error) {
+  console.error(`❌ ${(error as Error).message}`)
+  process.exitCode = 1
+}
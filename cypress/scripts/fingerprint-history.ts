@@ -0,0 +1,128 @@
+/**
+ * Shows how a fingerprinted element evolved, and rolls back a bad capture
+ *
+ *   npm run healing:history -- --element <name> [--from <version>] [--to <version>]
+ *                              [--rollback <version>] [--store <path>] [--config <path>]
+ *
+ * Without --from or --rollback, lists the element's versions. --from diffs two versions
+ * (--to defaults to the current one). --rollback makes an earlier version current again.
+ * The store and history limits default to the env.selfHealing settings of the Cypress config
+ * file (--config, cypress.config.ts by default).
+ */
+
+import * as path from 'path'
+import { mergeIntoLocatorStore, readLocatorStore } from '../plugins/self-healing'
+import { readProjectConfig } from '../plugins/self-healing/project-config'
+import {
+  diffFingerprintVersions,
+  FingerprintHistory,
+} from '../support/self-healing/fingerprint-history'
+import { ElementFingerprint } from '../support/self-healing/types'
+
+const USAGE =
+  'Usage: fingerprint-history --element <name> [--from <version>] [--to <version>] ' +
+  '[--rollback <version>] [--store <path>] [--config <path>]'
+
+async function main(argv: string[]): Promise<void> {
+  const options: Record<string, string> = {
+    element: '',
+    from: '',
+    to: '',
+    rollback: '',
+    store: '',
+    config: 'cypress.config.ts',
+  }
+
+  for (let index = 0; index < argv.length; index += 2) {
+    const name = argv[index].replace(/^--/, '')
+    if (!(name in options) || argv[index + 1] === undefined) {
+      throw new Error(USAGE)
+    }
+    options[name] = argv[index + 1]
+  }
+  if (!options.element) {
+    throw new Error(USAGE)
+  }
+
+  const config = readProjectConfig(path.resolve(process.cwd(), options.config))
+  const store = options.store || config.storePath
+  const storePath = path.resolve(process.cwd(), store)
+  const fingerprint = readLocatorStore(storePath).fingerprints.find(
+    (fp) => fp.name === options.element
+  )
+  if (!fingerprint) {
+    throw new Error(`No fingerprint named "${options.element}" in ${store}`)
+  }
+
+  if (options.rollback) {
+    const history = new FingerprintHistory({
+      runId: `rollback ${new Date().toISOString()}`,
+      maxVersions: config.fingerprintHistorySize,
+      promoteAfter: config.promoteAfterObservations,
+    })
+    const restored = history.rollback(fingerprint, toVersion(options.rollback))
+    await mergeIntoLocatorStore(storePath, {
+      fingerprints: [restored],
+      healingEvents: [],
+      healingAttempts: [],
+    })
+    console.log(
+      `⏪ "${fingerprint.name}" restored version ${options.rollback} as version ${restored.version}`
+    )
+    return
+  }
+
+  if (options.from) {
+    const to = options.to ? toVersion(options.to) : fingerprint.version || 1
+    const changes = diffFingerprintVersions(fingerprint, toVersion(options.from), to).filter(
+      (diff) => diff.changed
+    )
+    console.log(`"${fingerprint.name}" version ${options.from} → ${to}:`)
+    if (changes.length === 0) {
+      console.log('  no changes')
+    }
+    changes.forEach((diff) => {
+      console.log(`  ${diff.attribute}: ${diff.stored ?? '—'} → ${diff.current ?? '—'}`)
+    })
+    return
+  }
+
+  printHistory(fingerprint)
+}
+
+function printHistory(fingerprint: ElementFingerprint): void {
+  console.log(`"${fingerprint.name}" (${fingerprint.primaryLocator})`)
+
+  if (!fingerprint.history?.length) {
+    console.log('  captured before versions were recorded: only the current capture is known')
+  }
+  ;(fingerprint.history || []).forEach((version) => {
+    const current = version.version === fingerprint.version ? ' (current)' : ''
+    const restored = version.restoredFrom ? `, restored from version ${version.restoredFrom}` : ''
+    console.log(
+      `  v${version.version}${current}: ${new Date(version.capturedAt).toISOString()}, ` +
+        `run ${version.runId ?? 'unknown'}${restored}`
+    )
+  })
+
+  if (fingerprint.candidate) {
+    const { candidate } = fingerprint
+    console.log(
+      `  pending: changed capture observed ${candidate.observations} times since ` +
+        `${new Date(candidate.capturedAt).toISOString()} (run ${candidate.runId})`
+    )
+  }
+}
+
+function toVersion(value: string): number {
+  const version = Number(value)
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error(`Not a version number: ${value}`)
+  }
+  return version
+}
+
+main(process.argv.slice(2)).catch((error: Error) => {
+  console.error(`❌ ${error.message}`)
+  process.exitCode = 1
+})
@@ -0,0 +1,83 @@
+/**
+ * Lists heals awaiting review, and accepts or rejects them
+ *
+ *   npm run healing:review -- [--accept <id>] [--reject <id>] [--reviews <path>] [--store <path>]
+ *                             [--config <path>]
+ *
+ * Without --accept or --reject, lists the pending heals. Accepting makes the healed element's
+ * capture the element's fingerprint; rejecting keeps later heals from picking it again.
+ * Paths and history limits default to the env.selfHealing settings of the Cypress config file
+ * (--config, cypress.config.ts by default).
+ */
+
+import * as path from 'path'
+import { decideHealReview, readHealReviews } from '../plugins/self-healing'
+import { readProjectConfig } from '../plugins/self-healing/project-config'
+import { FingerprintHistory } from '../support/self-healing/fingerprint-history'
+
+const USAGE =
+  'Usage: review-heals [--accept <id>] [--reject <id>] [--reviews <path>] [--store <path>] ' +
+  '[--config <path>]'
+
+async function main(argv: string[]): Promise<void> {
+  const options: Record<string, string> = {
+    accept: '',
+    reject: '',
+    reviews: '',
+    store: '',
+    config: 'cypress.config.ts',
+  }
+
+  for (let index = 0; index < argv.length; index += 2) {
+    const name = argv[index].replace(/^--/, '')
+    if (!(name in options) || argv[index + 1] === undefined) {
+      throw new Error(USAGE)
+    }
+    options[name] = argv[index + 1]
+  }
+
+  const resolve = (file: string) => path.resolve(process.cwd(), file)
+  const config = readProjectConfig(resolve(options.config))
+  const reviewsPath = resolve(options.reviews || config.reviewQueuePath)
+
+  if (options.accept || options.reject) {
+    const history = new FingerprintHistory({
+      runId: `review ${new Date().toISOString()}`,
+      maxVersions: config.fingerprintHistorySize,
+      promoteAfter: config.promoteAfterObservations,
+    })
+    const review = await decideHealReview(
+      reviewsPath,
+      resolve(options.store || config.storePath),
+      options.accept || options.reject,
+      options.accept ? 'accepted' : 'rejected',
+      history
+    )
+    console.log(
+      review.status === 'accepted'
+        ? `✅ "${review.elementName}" now heals to ${review.candidate} (via ${review.healedLocator})`
+        : `🚫 "${review.elementName}" will no longer heal to ${review.candidate}`
+    )
+    return
+  }
+
+  const pending = readHealReviews(reviewsPath).filter((r) => r.status === 'pending')
+  if (pending.length === 0) {
+    console.log('No heals awaiting review')
+    return
+  }
+
+  pending.forEach((review) => {
+    console.log(
+      `#${review.id} "${review.elementName}": ${review.originalLocator} → ${review.candidate}\n` +
+        `    via ${review.strategy} (${review.healedLocator}), ` +
+        `${(review.confidence * 100).toFixed(1)}% confidence, healed ${review.occurrences}×, ` +
+        `last in ${review.testFile} › ${review.testName}`
+    )
+  })
+}
+
+main(process.argv.slice(2)).catch((error: Error) => {
+  console.error(`❌ ${error.message}`)
+  process.exitCode = 1
+})
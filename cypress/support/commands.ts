@@ -1,75 +1,237 @@
 /// <reference types="cypress" />
 
-import { selfHealingEngine } from './self-healing'
+import {
+  autoCaptureName,
+  BudgetBreach,
+  containsLocator,
+  expectsNonExistence,
+  getAccessedPageElement,
+  getPageElements,
+  HealOptions,
+  LocatorStoreSnapshot,
+  PageElements,
+  PageObject,
+  QueuedCommand,
+  RegisterOptions,
+  selfHealingEngine,
+  validateHealOptions,
+} from './self-healing'
 
 declare global {
   namespace Cypress {
     interface Chainable {
       /**
        * Self-healing element finder that automatically recovers from broken locators
-       * @param locator - CSS selector or other locator
+       * @param locator - CSS selector or XPath (starting with `/`, `./` or `(`)
        * @param elementName - Unique name for this element (used for fingerprinting)
+       * @param options - Per-call overrides (timeout, confidenceThreshold, strategies, enabled,
+       * ambiguityMargin, collection, frame)
        * @example cy.heal('#submit-btn', 'submitButton')
+       * @example cy.heal('//form[@id="login-form"]//button', 'submitButton')
+       * @example cy.heal('#submit-btn', 'submitButton', { strategies: ['data-testid', 'id'] })
+       * @example cy.heal('.todo-item', 'todoItems', { collection: true })
+       * @example cy.heal('#card-number', 'cardNumber', { frame: '#payment-frame' })
        */
-      heal(locator: string, elementName: string): Chainable<JQuery<HTMLElement>>
+      heal(
+        locator: string,
+        elementName: string,
+        options?: HealOptions
+      ): Chainable<JQuery<HTMLElement>>
 
       /**
        * Registers an element for future self-healing
        * Call this during initial test development to capture element fingerprint
-       * @param locator - CSS selector or other locator
+       * @param locator - CSS selector or XPath
        * @param elementName - Unique name for this element
+       * @param options - `collection: true` fingerprints every matched element,
+       * `frame` locates the element inside same-origin iframes
        * @example cy.registerForHealing('#submit-btn', 'submitButton')
+       * @example cy.registerForHealing('.todo-item', 'todoItems', { collection: true })
        */
-      registerForHealing(locator: string, elementName: string): Chainable<JQuery<HTMLElement>>
+      registerForHealing(
+        locator: string,
+        elementName: string,
+        options?: RegisterOptions
+      ): Chainable<JQuery<HTMLElement>>
+
+      /**
+       * Registers every element of a page object for self-healing in one call
+       * @param page - Created with definePage()
+       * @example cy.healAll(loginPage)
+       */
+      healAll<T extends PageElements>(page: PageObject<T>): Chainable<PageObject<T>>
 
       /**
        * Saves the self-healing report at the end of test run
        * @example cy.saveHealingReport()
        */
       saveHealingReport(): Chainable<null>
+
+      /**
+       * Checks the run's heals against env.selfHealing.healingBudget
+       * Fails the spec on a breach when strictMode is on, logs it otherwise
+       * @example cy.checkHealingBudget()
+       */
+      checkHealingBudget(): Chainable<BudgetBreach[]>
+
+      /**
+       * Loads persisted fingerprints so elements registered in earlier runs can be healed
+       * @example cy.loadLocatorStore()
+       */
+      loadLocatorStore(): Chainable<LocatorStoreSnapshot>
+
+      /**
+       * Writes new or updated fingerprints to the persistent locator store
+       * @example cy.flushLocatorStore()
+       */
+      flushLocatorStore(): Chainable<null>
+    }
+
+    // Queries set their timeout with this.set('timeout', ms), which Cypress' types leave out
+    interface EnqueuedCommandAttributes {
+      timeout?: number
     }
   }
 }
 
 /**
- * Self-healing get command
+ * Self-healing get query
  * Uses primary locator first, falls back to AI-based healing if it fails
+ * Retried like cy.get, so chained assertions re-run the whole lookup
  */
-Cypress.Commands.add('heal', (locator: string, elementName: string) => {
-  const testFile = Cypress.spec.relative
-  const testName = Cypress.currentTest.title
+Cypress.Commands.addQuery(
+  'heal',
+  function (locator: string, elementName: string, options: HealOptions = {}) {
+    const testFile = Cypress.spec.relative
+    const testName = Cypress.currentTest.title
+    const pageElement = getAccessedPageElement(options)
+    const healOptions = validateHealOptions(options)
 
-  Cypress.log({
-    name: 'heal',
-    displayName: '🔧 HEAL',
-    message: `Finding "${elementName}"`,
-    consoleProps: () => ({
+    if (healOptions.timeout !== undefined) {
+      this.set('timeout', healOptions.timeout)
+    }
+
+    Cypress.log({
+      name: 'heal',
+      displayName: '🔧 HEAL',
+      message: `Finding "${elementName}"`,
+      consoleProps: () => ({
+        locator,
+        elementName,
+        testFile,
+        testName,
+        options: healOptions,
+      }),
+    })
+
+    return selfHealingEngine.createHealQuery(
       locator,
       elementName,
-      testFile,
-      testName,
-    }),
+      pageElement
+        ? { testFile, testName, source: 'page', pageElement }
+        : { testFile, testName, source: 'heal' },
+      healOptions
+    )
+  }
+)
+
+/**
+ * Auto-capture for plain cy.get() and cy.contains() (env.selfHealing.autoCapture)
+ * Calls the allow and deny lists let through are fingerprinted under a name derived from
+ * the spec, test and locator, and healed through that fingerprint when they find nothing
+ */
+if (selfHealingEngine.getConfig().autoCapture.enabled) {
+  Cypress.Commands.overwriteQuery('get', function (originalFn, selector, options) {
+    const query = originalFn.call(this, selector, options)
+    return expectsNonExistence(this as unknown as QueuedCommand)
+      ? query
+      : createAutoCaptureQuery('get', selector, query, options)
   })
 
-  return selfHealingEngine.findElement(locator, elementName, { testFile, testName })
-})
+  Cypress.Commands.overwriteQuery('contains', function (originalFn, ...args) {
+    const query = originalFn.apply(this, args)
+    return expectsNonExistence(this as unknown as QueuedCommand)
+      ? query
+      : createAutoCaptureQuery('contains', containsLocator(args), query)
+  })
+}
+
+function createAutoCaptureQuery(
+  source: 'get' | 'contains',
+  locator: string,
+  query: (subject: unknown) => JQuery<HTMLElement>,
+  options?: Partial<Cypress.Withinable>
+): (subject: unknown) => JQuery<HTMLElement> {
+  const testFile = Cypress.spec.relative
+  const testName = Cypress.currentTest.title
+  // Like the queries themselves, the enclosing .within() block is read when the call is made
+  const internals = cy as unknown as {
+    state(key: 'withinSubjectChain'): unknown
+    getSubjectFromChain(chain: unknown): JQuery<HTMLElement> | null
+  }
+  const withinChain = internals.state('withinSubjectChain')
+
+  return selfHealingEngine.createAutoCaptureQuery(
+    locator,
+    autoCaptureName(testFile, Cypress.currentTest.titlePath, locator),
+    { testFile, testName, source },
+    query,
+    // cy.contains() searches the element it's chained off, both search a .within() block's
+    (subject) => {
+      if (source === 'contains' && Cypress.dom.isElement(subject)) {
+        return subject as JQuery<HTMLElement>
+      }
+      if (options?.withinSubject) {
+        return options.withinSubject as JQuery<HTMLElement> | HTMLElement
+      }
+      return withinChain ? internals.getSubjectFromChain(withinChain) : null
+    },
+    options
+  )
+}
 
 /**
  * Register element for self-healing
  * Captures element fingerprint for future healing attempts
  */
-Cypress.Commands.add('registerForHealing', (locator: string, elementName: string) => {
+Cypress.Commands.add(
+  'registerForHealing',
+  (locator: string, elementName: string, options: RegisterOptions = {}) => {
+    Cypress.log({
+      name: 'registerForHealing',
+      displayName: '📝 REGISTER',
+      message: `Registering "${elementName}" for self-healing`,
+      consoleProps: () => ({
+        locator,
+        elementName,
+      }),
+    })
+
+    return selfHealingEngine.registerElement(locator, elementName, options)
+  }
+)
+
+/**
+ * Register every element of a page object
+ * Each one is fingerprinted by registerElement, like cy.registerForHealing
+ */
+Cypress.Commands.add('healAll', (page: PageObject<PageElements>) => {
+  const elements = getPageElements(page)
+
   Cypress.log({
-    name: 'registerForHealing',
+    name: 'healAll',
     displayName: '📝 REGISTER',
-    message: `Registering "${elementName}" for self-healing`,
+    message: `Registering ${elements.length} page elements for self-healing`,
     consoleProps: () => ({
-      locator,
-      elementName,
+      elements: elements.map(({ name, locator }) => `${name}: ${locator}`),
     }),
   })
 
-  return selfHealingEngine.registerElement(locator, elementName)
+  elements.forEach(({ locator, name, collection, frame }) => {
+    selfHealingEngine.registerElement(locator, name, { collection, frame })
+  })
+
+  return cy.wrap(page, { log: false })
 })
 
 /**
@@ -79,3 +241,23 @@ Cypress.Commands.add('saveHealingReport', () => {
   return selfHealingEngine.saveReport()
 })
 
+/**
+ * Check the healing budget
+ */
+Cypress.Commands.add('checkHealingBudget', () => {
+  return selfHealingEngine.checkBudget()
+})
+
+/**
+ * Load persisted fingerprints
+ */
+Cypress.Commands.add('loadLocatorStore', () => {
+  return selfHealingEngine.loadStore()
+})
+
+/**
+ * Flush fingerprint changes to disk
+ */
+Cypress.Commands.add('flushLocatorStore', () => {
+  return selfHealingEngine.flushStore()
+})
@@ -1,16 +1,33 @@
 /// <reference types="cypress" />
 
 import './commands'
+import { selfHealingEngine } from './self-healing'
 
-// Save healing report after all tests complete
+// Load fingerprints captured by earlier tests, specs and runs
+before(() => {
+  cy.loadLocatorStore()
+})
+
+// Persist fingerprints captured or updated by this test
+afterEach(() => {
+  cy.flushLocatorStore()
+})
+
+// Screenshot healed elements as soon as the healing query resolves
+Cypress.on('command:end', () => {
+  selfHealingEngine.screenshotHeals()
+})
+
+// Save healing report after all tests complete, then enforce the healing budget
 after(() => {
   cy.saveHealingReport()
+  cy.checkHealingBudget()
 })
 
 // Log when self-healing is enabled
 beforeEach(() => {
-  const config = Cypress.env('selfHealing')
-  if (config?.enabled) {
+  const config = selfHealingEngine.getConfig()
+  if (config.enabled) {
     Cypress.log({
       name: 'Self-Healing',
       displayName: '🔧 CONFIG',
@@ -18,4 +35,3 @@ beforeEach(() => {
     })
   }
 })
-
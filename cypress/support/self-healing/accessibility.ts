@@ -0,0 +1,264 @@
+/**
+ * Accessibility helpers: how users and assistive technology identify an element
+ */
+
+// Form fields users find through their label
+export const LABELABLE_TAGS = ['input', 'select', 'textarea']
+
+// Longer texts next to a field are content, not its label
+const MAX_NEARBY_TEXT_LENGTH = 50
+
+// Roles whose name comes from their content when nothing labels them
+const NAME_FROM_CONTENT_ROLES = [
+  'button',
+  'link',
+  'heading',
+  'checkbox',
+  'radio',
+  'option',
+  'tab',
+  'menuitem',
+  'cell',
+  'columnheader',
+  'listitem',
+]
+
+const INPUT_ROLES: Record<string, string> = {
+  button: 'button',
+  submit: 'button',
+  reset: 'button',
+  image: 'button',
+  checkbox: 'checkbox',
+  radio: 'radio',
+  range: 'slider',
+  number: 'spinbutton',
+  search: 'searchbox',
+  email: 'textbox',
+  tel: 'textbox',
+  text: 'textbox',
+  url: 'textbox',
+  password: 'textbox',
+}
+
+const TAG_ROLES: Record<string, string> = {
+  button: 'button',
+  textarea: 'textbox',
+  h1: 'heading',
+  h2: 'heading',
+  h3: 'heading',
+  h4: 'heading',
+  h5: 'heading',
+  h6: 'heading',
+  ul: 'list',
+  ol: 'list',
+  li: 'listitem',
+  nav: 'navigation',
+  main: 'main',
+  form: 'form',
+  aside: 'complementary',
+  dialog: 'dialog',
+  table: 'table',
+  tr: 'row',
+  td: 'cell',
+  th: 'columnheader',
+  option: 'option',
+  progress: 'progressbar',
+  fieldset: 'group',
+}
+
+/**
+ * Whether a control is checked and/or disabled, for role queries
+ */
+export interface AccessibleState {
+  checked?: boolean
+  disabled?: boolean
+}
+
+/**
+ * Whether the element is a form field that can be located through its label
+ */
+export function isLabelable(element: Element): boolean {
+  return (
+    LABELABLE_TAGS.includes(element.tagName.toLowerCase()) &&
+    element.getAttribute('type') !== 'hidden'
+  )
+}
+
+/**
+ * ARIA role of an element: the explicit `role` attribute, else the implicit role of its tag
+ * (e.g. `button`, `textbox` for text inputs, `link` for `a[href]`)
+ */
+export function getRole(element: Element): string | undefined {
+  const explicit = element.getAttribute('role')?.trim().split(/\s+/)[0]
+  if (explicit) {
+    return explicit
+  }
+
+  const tagName = element.tagName.toLowerCase()
+
+  switch (tagName) {
+    case 'input':
+      return INPUT_ROLES[(element.getAttribute('type') || 'text').toLowerCase()]
+    case 'select':
+      return element.hasAttribute('multiple') || Number(element.getAttribute('size')) > 1
+        ? 'listbox'
+        : 'combobox'
+    case 'a':
+      return element.hasAttribute('href') ? 'link' : undefined
+    case 'img':
+      return element.getAttribute('alt') === '' ? 'presentation' : 'img'
+    default:
+      return TAG_ROLES[tagName]
+  }
+}
+
+/**
+ * Checked and disabled state, from native properties or their ARIA equivalents
+ */
+export function getAccessibleState(element: Element): AccessibleState {
+  const state: AccessibleState = {}
+  const role = getRole(element)
+
+  if (role === 'checkbox' || role === 'radio' || role === 'switch') {
+    const ariaChecked = element.getAttribute('aria-checked')
+    state.checked =
+      ariaChecked !== null ? ariaChecked === 'true' : !!(element as HTMLInputElement).checked
+  }
+
+  const disabled =
+    element.hasAttribute('disabled') || element.getAttribute('aria-disabled') === 'true'
+  if (disabled) {
+    state.disabled = true
+  }
+
+  return state
+}
+
+/**
+ * Computes the accessible name, in the order assistive technology uses:
+ * aria-labelledby, aria-label, `<label for>`, a wrapping `<label>`, alt, the content of
+ * buttons, links and the like, title, then for form fields nearby text
+ * (e.g. `<span>Email</span><input>`) as a last resort
+ */
+export function getAccessibleName(element: HTMLElement): string | undefined {
+  const root = element.getRootNode() as Document | ShadowRoot
+
+  const labelledBy = element.getAttribute('aria-labelledby')
+  if (labelledBy) {
+    const text = labelledBy
+      .split(/\s+/)
+      .map((id) => root.getElementById?.(id)?.textContent || '')
+      .join(' ')
+    if (normalizeText(text)) {
+      return normalizeText(text)
+    }
+  }
+
+  const ariaLabel = normalizeText(element.getAttribute('aria-label') || '')
+  if (ariaLabel) {
+    return ariaLabel
+  }
+
+  if (isLabelable(element)) {
+    const text = normalizeText(getLabels(element).map(labelContent).join(' '))
+    if (text) {
+      return text
+    }
+  }
+
+  const tagName = element.tagName.toLowerCase()
+  if (tagName === 'img' || (tagName === 'input' && element.getAttribute('type') === 'image')) {
+    const alt = normalizeText(element.getAttribute('alt') || '')
+    if (alt) {
+      return alt
+    }
+  }
+
+  if (tagName === 'input' && INPUT_ROLES[element.getAttribute('type') || ''] === 'button') {
+    const value = normalizeText((element as HTMLInputElement).value || '')
+    if (value) {
+      return value
+    }
+  }
+
+  if (!isLabelable(element) && NAME_FROM_CONTENT_ROLES.includes(getRole(element) || '')) {
+    const content = normalizeText(element.textContent || '')
+    if (content) {
+      return content
+    }
+  }
+
+  const title = normalizeText(element.getAttribute('title') || '')
+  if (title) {
+    return title
+  }
+
+  return isLabelable(element) ? findNearbyText(element) : undefined
+}
+
+/**
+ * Text of the field's own label: its `<label for>` and wrapping `<label>`, else the short text
+ * right before it (e.g. `<span>Email</span><input>`)
+ * Unlike the accessible name, aria-label and title are ignored, so the label strategy keeps
+ * working when those change
+ */
+export function getLabelText(element: HTMLElement): string | undefined {
+  if (!isLabelable(element)) {
+    return undefined
+  }
+
+  const text = normalizeText(getLabels(element).map(labelContent).join(' '))
+  return text || findNearbyText(element)
+}
+
+/**
+ * Collapses whitespace the way accessible names are compared
+ */
+export function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * `<label for>` elements pointing at the field, then the `<label>` wrapping it
+ */
+function getLabels(element: HTMLElement): Element[] {
+  const root = element.getRootNode() as Document | ShadowRoot
+  const labels: Element[] = element.id
+    ? Array.from(root.querySelectorAll('label[for]')).filter(
+        (label) => label.getAttribute('for') === element.id
+      )
+    : []
+  const wrapping = element.closest('label')
+  if (wrapping && !labels.includes(wrapping)) {
+    labels.push(wrapping)
+  }
+
+  return labels
+}
+
+/**
+ * Text of a label without the text of the fields it wraps (e.g. a select's options)
+ */
+function labelContent(label: Element): string {
+  const clone = label.cloneNode(true) as Element
+  clone.querySelectorAll(LABELABLE_TAGS.join(',')).forEach((field) => field.remove())
+  return clone.textContent || ''
+}
+
+/**
+ * First short text before the field, in a preceding text node or sibling element
+ */
+function findNearbyText(element: HTMLElement): string | undefined {
+  for (let node = element.previousSibling; node; node = node.previousSibling) {
+    if (node.nodeType === Node.ELEMENT_NODE && isLabelable(node as Element)) {
+      return undefined
+    }
+
+    const text = normalizeText(node.textContent || '')
+    if (text) {
+      return text.length <= MAX_NEARBY_TEXT_LENGTH ? text : undefined
+    }
+  }
+
+  return undefined
+}
@@ -0,0 +1,86 @@
+import { AutoCaptureConfig } from './types'
+
+// Options objects of the cy.get() calls the framework makes itself, which are never captured
+const frameworkQueries = new WeakSet<object>()
+
+/**
+ * Marks the options of a cy.get() call made by the framework (e.g. registration), so
+ * auto-capture doesn't fingerprint the element a second time under a derived name
+ */
+export function frameworkQueryOptions<T extends object>(options: T): T {
+  frameworkQueries.add(options)
+  return options
+}
+
+/**
+ * Whether a plain cy.get() or cy.contains() call is fingerprinted and healed
+ * Aliases (`@name`) and the framework's own queries never are
+ */
+export function shouldAutoCapture(
+  locator: string,
+  config: AutoCaptureConfig,
+  options?: unknown
+): boolean {
+  if (!config.enabled || locator.startsWith('@')) {
+    return false
+  }
+
+  if (typeof options === 'object' && options !== null && frameworkQueries.has(options)) {
+    return false
+  }
+
+  const matches = (pattern: string) => new RegExp(pattern).test(locator)
+  const allowed = !config.allow?.length || config.allow.some(matches)
+  return allowed && !config.deny?.some(matches)
+}
+
+/**
+ * The parts of a queued Cypress command read to look ahead at its assertions
+ */
+export interface QueuedCommand {
+  get(key: 'type' | 'name'): string
+  get(key: 'args'): unknown[]
+  get(key: 'next'): QueuedCommand | undefined
+}
+
+/**
+ * Whether the assertions chained to a command expect its element to be gone,
+ * e.g. `cy.get('.spinner').should('not.exist')`; healing would defeat them
+ */
+export function expectsNonExistence(command: QueuedCommand): boolean {
+  for (
+    let next = command.get('next');
+    next && next.get('type') === 'assertion';
+    next = next.get('next')
+  ) {
+    const [chainer] = next.get('args')
+    if (chainer === 'not.exist') {
+      return true
+    }
+  }
+
+  return false
+}
+
+/**
+ * Fingerprint name of an auto-captured element: the same call in the same test always maps
+ * to the same fingerprint, e.g. `cypress/e2e/login.cy.ts › Login › should log in › #login-btn`
+ * The test is named by its title path, so same-titled tests of different suites don't share one
+ */
+export function autoCaptureName(testFile: string, titlePath: string[], locator: string): string {
+  return [testFile, ...titlePath, locator].join(' › ')
+}
+
+/**
+ * Describes the arguments of a cy.contains() call as a locator, e.g. `contains(button, "Save")`
+ * Like cy.contains(), a second argument that is an options object means there is no selector
+ */
+export function containsLocator(args: unknown[]): string {
+  const [first, second] = args
+  const hasSelector =
+    second !== undefined && (typeof second !== 'object' || second instanceof RegExp)
+  const content = hasSelector ? second : first
+
+  const formatted = typeof content === 'string' ? JSON.stringify(content) : String(content)
+  return hasSelector ? `contains(${String(first)}, ${formatted})` : `contains(${formatted})`
+}
@@ -0,0 +1,256 @@
+import {
+  AmbiguityPolicy,
+  AutoCaptureConfig,
+  AutoUpdateMode,
+  HealingBudget,
+  HealingStrategy,
+  HealOptions,
+  SelfHealingConfig,
+} from './types'
+import { BUILT_IN_FEATURE_NAMES } from './similarity-scorer'
+
+export const DEFAULT_CONFIG: SelfHealingConfig = {
+  enabled: true,
+  confidenceThreshold: 0.6,
+  maxAlternatives: 12,
+  reportPath: 'cypress/reports/healing-report.json',
+  autoUpdateLocators: false,
+  healingGracePeriod: 1000,
+  autoUpdateMode: 'patch',
+  autoUpdatePatchPath: 'cypress/reports/locator-updates.patch',
+  storePath: 'cypress/healing/locator-store.json',
+  storeHistoryLimit: 500,
+  htmlReportPath: 'cypress/reports/healing-report.html',
+  junitReportPath: 'cypress/reports/healing-junit.xml',
+  sarifReportPath: 'cypress/reports/healing.sarif',
+  ambiguityMargin: 0.05,
+  ambiguousHeals: 'reject',
+  healingBudget: {},
+  strictMode: false,
+  scoringWeights: {},
+  calibrationPath: 'cypress/healing/calibration.json',
+  fingerprintHistorySize: 10,
+  promoteAfterObservations: 3,
+  autoAcceptThreshold: 0.8,
+  reviewQueuePath: 'cypress/healing/heal-reviews.json',
+  autoCapture: {},
+}
+
+const AUTO_UPDATE_MODES: AutoUpdateMode[] = ['apply', 'patch', 'dry-run']
+
+const AMBIGUITY_POLICIES: AmbiguityPolicy[] = ['reject', 'flag']
+
+const HEALING_STRATEGIES: HealingStrategy[] = [
+  'id',
+  'data-testid',
+  'data-cy',
+  'aria-label',
+  'text',
+  'css',
+  'xpath',
+  'class',
+  'name',
+  'placeholder',
+  'title',
+  'role',
+  'label',
+  'similarity',
+]
+
+type Validator = (value: unknown) => boolean
+
+const CONFIG_VALIDATORS: Record<keyof SelfHealingConfig, [Validator, string]> = {
+  enabled: [isBoolean, 'a boolean'],
+  confidenceThreshold: [isRatio, 'a number between 0 and 1'],
+  maxAlternatives: [isPositiveInteger, 'a positive integer'],
+  reportPath: [isNonEmptyString, 'a non-empty path'],
+  autoUpdateLocators: [isBoolean, 'a boolean'],
+  healingGracePeriod: [isNonNegativeNumber, 'a number of milliseconds >= 0'],
+  autoUpdateMode: [
+    (v) => AUTO_UPDATE_MODES.includes(v as AutoUpdateMode),
+    AUTO_UPDATE_MODES.join(' | '),
+  ],
+  autoUpdatePatchPath: [isNonEmptyString, 'a non-empty path'],
+  storePath: [isNonEmptyString, 'a non-empty path'],
+  storeHistoryLimit: [isPositiveInteger, 'a positive integer'],
+  htmlReportPath: [isNonEmptyString, 'a non-empty path'],
+  junitReportPath: [isNonEmptyString, 'a non-empty path'],
+  sarifReportPath: [isNonEmptyString, 'a non-empty path'],
+  ambiguityMargin: [isRatio, 'a number between 0 and 1'],
+  ambiguousHeals: [
+    (v) => AMBIGUITY_POLICIES.includes(v as AmbiguityPolicy),
+    AMBIGUITY_POLICIES.join(' | '),
+  ],
+  healingBudget: [isPlainObject, 'an object of budget limits'],
+  strictMode: [isBoolean, 'a boolean'],
+  scoringWeights: [
+    isScoringWeights,
+    `an object of weights >= 0 for ${BUILT_IN_FEATURE_NAMES.join(' | ')}`,
+  ],
+  calibrationPath: [isNonEmptyString, 'a non-empty path'],
+  fingerprintHistorySize: [isPositiveInteger, 'a positive integer'],
+  promoteAfterObservations: [isPositiveInteger, 'a positive integer'],
+  autoAcceptThreshold: [isRatio, 'a number between 0 and 1'],
+  reviewQueuePath: [isNonEmptyString, 'a non-empty path'],
+  autoCapture: [isPlainObject, 'an object of auto-capture options'],
+}
+
+const BUDGET_VALIDATORS: Record<keyof HealingBudget, [Validator, string]> = {
+  maxHeals: [isNonNegativeInteger, 'an integer >= 0'],
+  maxHealsPerSpec: [isNonNegativeInteger, 'an integer >= 0'],
+  maxHealsPerElement: [isNonNegativeInteger, 'an integer >= 0'],
+  confidenceFloor: [isRatio, 'a number between 0 and 1'],
+  maxLowConfidenceHeals: [isNonNegativeInteger, 'an integer >= 0'],
+  forbiddenStrategies: [isStrategyList, `an array of ${HEALING_STRATEGIES.join(' | ')}`],
+}
+
+const AUTO_CAPTURE_VALIDATORS: Record<keyof AutoCaptureConfig, [Validator, string]> = {
+  enabled: [isBoolean, 'a boolean'],
+  allow: [isPatternList, 'an array of regular expressions'],
+  deny: [isPatternList, 'an array of regular expressions'],
+}
+
+const OPTION_VALIDATORS: Record<keyof HealOptions, [Validator, string]> = {
+  timeout: [isNonNegativeNumber, 'a number of milliseconds >= 0'],
+  confidenceThreshold: [isRatio, 'a number between 0 and 1'],
+  strategies: [isStrategyList, `an array of ${HEALING_STRATEGIES.join(' | ')}`],
+  enabled: [isBoolean, 'a boolean'],
+  ambiguityMargin: [isRatio, 'a number between 0 and 1'],
+  collection: [isBoolean, 'a boolean'],
+  frame: [
+    (v) => isNonEmptyString(v) || (Array.isArray(v) && v.length > 0 && v.every(isNonEmptyString)),
+    'a frame locator or an array of frame locators',
+  ],
+}
+
+/**
+ * Validates the `selfHealing` env object from cypress.config.ts and fills in defaults
+ * Throws on unknown keys and invalid values, so a typo doesn't silently fall back to defaults
+ */
+export function resolveConfig(raw: unknown): SelfHealingConfig {
+  const options = validate(raw, CONFIG_VALIDATORS, 'env.selfHealing')
+  const config: SelfHealingConfig = {
+    ...DEFAULT_CONFIG,
+    // Heals below confidenceThreshold fail, so auto-accepting starts at it at the earliest
+    autoAcceptThreshold: Math.max(
+      DEFAULT_CONFIG.autoAcceptThreshold,
+      options.confidenceThreshold ?? DEFAULT_CONFIG.confidenceThreshold
+    ),
+    ...options,
+  }
+  validate(config.healingBudget, BUDGET_VALIDATORS, 'env.selfHealing.healingBudget')
+  validate(config.autoCapture, AUTO_CAPTURE_VALIDATORS, 'env.selfHealing.autoCapture')
+
+  // A lower autoAcceptThreshold would queue nothing, which can't be what was asked for
+  if (
+    options.autoAcceptThreshold !== undefined &&
+    config.autoAcceptThreshold < config.confidenceThreshold
+  ) {
+    throw new Error(
+      `Invalid self-healing config in env.selfHealing: "autoAcceptThreshold" ` +
+        `(${config.autoAcceptThreshold}) must be at least "confidenceThreshold" ` +
+        `(${config.confidenceThreshold})`
+    )
+  }
+
+  return config
+}
+
+/**
+ * Validates per-call cy.heal() options
+ */
+export function validateHealOptions(raw: unknown): HealOptions {
+  return validate(raw, OPTION_VALIDATORS, 'cy.heal() options')
+}
+
+function validate<T extends object>(
+  raw: unknown,
+  validators: Record<keyof T, [Validator, string]>,
+  source: string
+): Partial<T> {
+  if (raw === undefined || raw === null) {
+    return {}
+  }
+
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`Invalid self-healing config: ${source} must be an object`)
+  }
+
+  const errors: string[] = []
+
+  Object.entries(raw).forEach(([key, value]) => {
+    const validator = validators[key as keyof T]
+    if (!validator) {
+      errors.push(`unknown option "${key}"`)
+    } else if (value !== undefined && !validator[0](value)) {
+      errors.push(`"${key}" must be ${validator[1]} (got ${JSON.stringify(value)})`)
+    }
+  })
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid self-healing config in ${source}: ${errors.join('; ')}`)
+  }
+
+  return raw as Partial<T>
+}
+
+function isBoolean(value: unknown): boolean {
+  return typeof value === 'boolean'
+}
+
+function isRatio(value: unknown): boolean {
+  return typeof value === 'number' && value >= 0 && value <= 1
+}
+
+function isNonNegativeInteger(value: unknown): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0
+}
+
+function isPositiveInteger(value: unknown): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0
+}
+
+function isNonNegativeNumber(value: unknown): boolean {
+  return typeof value === 'number' && value >= 0
+}
+
+function isNonEmptyString(value: unknown): boolean {
+  return typeof value === 'string' && value.length > 0
+}
+
+function isPlainObject(value: unknown): boolean {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isStrategyList(value: unknown): boolean {
+  return (
+    Array.isArray(value) && value.every((s) => HEALING_STRATEGIES.includes(s as HealingStrategy))
+  )
+}
+
+function isPatternList(value: unknown): boolean {
+  return Array.isArray(value) && value.every(isRegExpSource)
+}
+
+function isRegExpSource(value: unknown): boolean {
+  if (typeof value !== 'string') {
+    return false
+  }
+
+  try {
+    new RegExp(value)
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Custom features are registered in code, with their own weight
+function isScoringWeights(value: unknown): boolean {
+  return (
+    isPlainObject(value) &&
+    Object.entries(value as object).every(
+      ([feature, weight]) => BUILT_IN_FEATURE_NAMES.includes(feature) && isNonNegativeNumber(weight)
+    )
+  )
+}
@@ -4,7 +4,33 @@ import {
   LocatorStrategy,
   LocatorType,
   ParentInfo,
+  StructuralContext,
 } from './types'
+import { getShadowHosts, queryLocator, toXPathLiteral } from './locator-query'
+import { getAccessibleName, getAccessibleState, getLabelText, getRole } from './accessibility'
+
+const LANDMARK_TAGS = ['form', 'main', 'nav', 'header', 'footer', 'aside', 'section', 'dialog']
+
+const LANDMARK_ROLES = [
+  'form',
+  'main',
+  'navigation',
+  'banner',
+  'contentinfo',
+  'complementary',
+  'region',
+  'search',
+  'dialog',
+]
+
+// Roles assistive technology ignores, so a name doesn't identify them
+const UNNAMED_ROLES = ['presentation', 'none', 'generic']
+
+// Deeper ancestors rarely tell look-alikes apart and change with every layout tweak
+const MAX_ANCESTORS = 8
+
+// Longer sibling texts are content, not labels
+const MAX_LABEL_LENGTH = 50
 
 /**
  * Captures a complete fingerprint of a DOM element for self-healing purposes
@@ -12,10 +38,16 @@ import {
 export function captureElementFingerprint(
   element: HTMLElement,
   name: string,
-  primaryLocator: string
+  primaryLocator: string,
+  index?: number,
+  framePath: string[] = []
 ): ElementFingerprint {
   const attributes = extractAttributes(element)
-  const alternativeLocators = generateAlternativeLocators(element, attributes)
+  const alternativeLocators = markUniqueLocators(
+    generateAlternativeLocators(element, attributes),
+    element
+  )
+  const shadowHosts = getShadowHosts(element).map(generateHostSelector)
 
   return {
     name,
@@ -24,13 +56,86 @@ export function captureElementFingerprint(
     attributes,
     lastSeen: new Date(),
     healCount: 0,
+    ...(shadowHosts.length > 0 && { shadowHosts }),
+    ...(framePath.length > 0 && { framePath }),
+    ...(index !== undefined && { index }),
   }
 }
 
+/**
+ * Fingerprint name of one item of a collection-mode cy.heal()
+ */
+export function collectionItemName(name: string, index: number): string {
+  return `${name}[${index}]`
+}
+
+/**
+ * Picks the most stable locator that uniquely identifies the element in its document
+ * Used to suggest a replacement for a broken locator in the spec source
+ */
+export function selectStableLocator(element: HTMLElement): string | null {
+  const attributes = extractAttributes(element)
+  const candidates = generateAlternativeLocators(element, attributes)
+
+  for (const locator of candidates) {
+    try {
+      const matches = queryLocator(locator.value, element.ownerDocument)
+      if (matches.length === 1 && matches[0] === element) {
+        return locator.value
+      }
+    } catch {
+      // Not a native CSS selector, can't be used as a cy.heal() locator
+      continue
+    }
+  }
+
+  return null
+}
+
+/**
+ * Short human-readable description of an element for logs and reports
+ * e.g. `button#login-btn[data-testid="login-button"] "Login"`,
+ * prefixed with its shadow hosts: `my-button[data-testid="save"] › button "Save"`
+ */
+export function describeElement(element: HTMLElement): string {
+  let description = getShadowHosts(element)
+    .map((host) => `${generateHostSelector(host)} › `)
+    .join('')
+
+  description += element.tagName.toLowerCase()
+
+  if (element.id) {
+    description += `#${element.id}`
+  }
+
+  const testId = element.getAttribute('data-testid')
+  if (testId) {
+    description += `[data-testid="${testId}"]`
+  }
+
+  const text = element.textContent?.replace(/\s+/g, ' ').trim()
+  if (text) {
+    description += ` "${text.length > 30 ? `${text.substring(0, 30)}…` : text}"`
+  }
+
+  return description
+}
+
+/**
+ * Structural path of an element from the top of its tree, through its shadow hosts,
+ * e.g. `ul > li:nth-of-type(2) > button`
+ * Tells apart look-alikes that describeElement() describes the same way
+ */
+export function elementPath(element: HTMLElement): string {
+  return [...getShadowHosts(element), element]
+    .map((node) => pathInTree(node).join(' > '))
+    .join(' › ')
+}
+
 /**
  * Extracts all relevant attributes from an element
  */
-function extractAttributes(element: HTMLElement): ElementAttributes {
+export function extractAttributes(element: HTMLElement): ElementAttributes {
   const rect = element.getBoundingClientRect()
   const parent = element.parentElement
 
@@ -41,13 +146,8 @@ function extractAttributes(element: HTMLElement): ElementAttributes {
     }
   })
 
-  const parentInfo: ParentInfo | undefined = parent
-    ? {
-        tagName: parent.tagName.toLowerCase(),
-        className: parent.className || undefined,
-        id: parent.id || undefined,
-      }
-    : undefined
+  const parentInfo: ParentInfo | undefined = parent ? toParentInfo(parent) : undefined
+  const state = getAccessibleState(element)
 
   return {
     tagName: element.tagName.toLowerCase(),
@@ -59,7 +159,12 @@ function extractAttributes(element: HTMLElement): ElementAttributes {
     placeholder: element.getAttribute('placeholder') || undefined,
     title: element.getAttribute('title') || undefined,
     ariaLabel: element.getAttribute('aria-label') || undefined,
+    accessibleName: getAccessibleName(element),
+    labelText: getLabelText(element),
     role: element.getAttribute('role') || undefined,
+    accessibleRole: getRole(element),
+    checked: state.checked,
+    disabled: state.disabled,
     type: element.getAttribute('type') || undefined,
     href: element.getAttribute('href') || undefined,
     src: element.getAttribute('src') || undefined,
@@ -72,9 +177,58 @@ function extractAttributes(element: HTMLElement): ElementAttributes {
       height: rect.height,
     },
     parentInfo,
+    structure: extractStructure(element),
+  }
+}
+
+/**
+ * Records the ancestor chain up to the nearest landmark, the sibling index and nearby labels
+ */
+export function extractStructure(element: HTMLElement): StructuralContext {
+  const ancestors: ParentInfo[] = []
+
+  for (
+    let ancestor = element.parentElement;
+    ancestor && ancestor.tagName !== 'BODY' && ancestors.length < MAX_ANCESTORS;
+    ancestor = ancestor.parentElement
+  ) {
+    ancestors.push(toParentInfo(ancestor))
+    if (isLandmark(ancestor)) {
+      break
+    }
+  }
+
+  const sameTagSiblings = Array.from(element.parentElement?.children || []).filter(
+    (sibling) => sibling.tagName === element.tagName
+  )
+
+  const neighbourLabels = [element.previousElementSibling, element.nextElementSibling]
+    .map((sibling) => sibling?.textContent?.replace(/\s+/g, ' ').trim() || '')
+    .filter((text) => text.length > 0 && text.length <= MAX_LABEL_LENGTH)
+
+  return {
+    ancestors,
+    siblingIndex: Math.max(sameTagSiblings.indexOf(element), 0),
+    neighbourLabels,
+  }
+}
+
+function toParentInfo(element: Element): ParentInfo {
+  return {
+    tagName: element.tagName.toLowerCase(),
+    className: (typeof element.className === 'string' && element.className) || undefined,
+    id: element.id || undefined,
   }
 }
 
+function isLandmark(element: Element): boolean {
+  const role = element.getAttribute('role')
+  return (
+    LANDMARK_TAGS.includes(element.tagName.toLowerCase()) ||
+    (!!role && LANDMARK_ROLES.includes(role))
+  )
+}
+
 /**
  * Generates alternative locator strategies with priority scoring
  */
@@ -124,12 +278,28 @@ function generateAlternativeLocators(
     })
   }
 
+  // Label text (how testers identify form fields)
+  if (attributes.labelText) {
+    const tagName = element.tagName.toLowerCase()
+    locators.push({
+      type: 'label',
+      value: `${tagName} labelled "${attributes.labelText}"`,
+      priority: 5,
+      confidence: 0.85,
+      label: {
+        tagName,
+        text: attributes.labelText,
+        mode: 'fuzzy',
+      },
+    })
+  }
+
   // name attribute
   if (attributes.name) {
     locators.push({
       type: 'name',
       value: `[name="${attributes.name}"]`,
-      priority: 5,
+      priority: 6,
       confidence: 0.8,
     })
   }
@@ -139,32 +309,57 @@ function generateAlternativeLocators(
     locators.push({
       type: 'placeholder',
       value: `[placeholder="${attributes.placeholder}"]`,
-      priority: 6,
+      priority: 7,
       confidence: 0.75,
     })
   }
 
-  // role + text combination
-  if (attributes.role && attributes.text) {
+  // Role + accessible name, the way users and screen readers tell controls apart
+  if (
+    attributes.accessibleRole &&
+    attributes.accessibleName &&
+    !UNNAMED_ROLES.includes(attributes.accessibleRole)
+  ) {
     locators.push({
       type: 'role',
-      value: `[role="${attributes.role}"]`,
-      priority: 7,
-      confidence: 0.7,
+      value: formatRoleLocator(attributes.accessibleRole, attributes.accessibleName),
+      priority: 8,
+      confidence: 0.8,
+      role: {
+        role: attributes.accessibleRole,
+        name: attributes.accessibleName,
+        mode: 'case-insensitive',
+        checked: attributes.checked,
+        disabled: attributes.disabled,
+      },
     })
   }
 
   // Text content (useful for buttons, links)
   if (attributes.text && attributes.text.length < 50) {
-    const textLocator = generateTextLocator(element.tagName.toLowerCase(), attributes.text)
-    if (textLocator) {
-      locators.push({
-        type: 'text',
-        value: textLocator,
-        priority: 8,
-        confidence: 0.7,
-      })
-    }
+    const tagName = element.tagName.toLowerCase()
+    locators.push({
+      type: 'text',
+      value: generateTextLocator(tagName, attributes.text),
+      priority: 9,
+      confidence: 0.7,
+      text: {
+        tagName,
+        text: attributes.text,
+        mode: 'fuzzy',
+      },
+    })
+  }
+
+  // Relative XPath anchored on the nearest identifiable ancestor
+  const xpath = generateRelativeXPath(element, attributes)
+  if (xpath) {
+    locators.push({
+      type: 'xpath',
+      value: xpath,
+      priority: 10,
+      confidence: 0.65,
+    })
   }
 
   // Class-based (lower confidence due to styling changes)
@@ -172,7 +367,7 @@ function generateAlternativeLocators(
     locators.push({
       type: 'class',
       value: `.${attributes.className}`,
-      priority: 9,
+      priority: 11,
       confidence: 0.5,
     })
   }
@@ -183,7 +378,7 @@ function generateAlternativeLocators(
     locators.push({
       type: 'css',
       value: cssWithContext,
-      priority: 10,
+      priority: 12,
       confidence: 0.6,
     })
   }
@@ -192,21 +387,121 @@ function generateAlternativeLocators(
 }
 
 /**
- * Generates a text-based locator using Cypress contains
+ * Records which CSS and XPath locators match only the element in its document
+ * Text, label and role locators are structured queries and are left unmarked
  */
-function generateTextLocator(tagName: string, text: string): string | null {
+function markUniqueLocators(locators: LocatorStrategy[], element: HTMLElement): LocatorStrategy[] {
+  return locators.map((locator) => {
+    if (locator.text || locator.label || locator.role) {
+      return locator
+    }
+
+    try {
+      const matches = queryLocator(locator.value, element.ownerDocument)
+      return { ...locator, unique: matches.length === 1 && matches[0] === element }
+    } catch {
+      return { ...locator, unique: false }
+    }
+  })
+}
+
+/**
+ * Readable form of a role locator, as it would be written with Testing Library
+ */
+function formatRoleLocator(role: string, name: string): string {
+  return `getByRole('${role}', { name: ${JSON.stringify(name)} })`
+}
+
+/**
+ * Generates a readable text locator (also valid for cy.get)
+ * The matcher resolves text strategies from the structured `text` field, not this string
+ */
+function generateTextLocator(tagName: string, text: string): string {
   const safeText = text.replace(/"/g, '\\"')
+  return `${tagName}:contains("${safeText}")`
+}
 
-  switch (tagName) {
-    case 'button':
-      return `button:contains("${safeText}")`
-    case 'a':
-      return `a:contains("${safeText}")`
-    case 'label':
-      return `label:contains("${safeText}")`
-    default:
-      return `${tagName}:contains("${safeText}")`
+/**
+ * Generates a relative XPath such as `//*[@id="login-form"]//button[normalize-space()="Login"]`
+ * Anchored on the nearest ancestor with a data-testid or id, narrowed with text or name predicates
+ */
+function generateRelativeXPath(element: HTMLElement, attributes: ElementAttributes): string | null {
+  const predicates: string[] = []
+
+  if (attributes.text && attributes.text.length < 50) {
+    predicates.push(`normalize-space()=${toXPathLiteral(attributes.text.replace(/\s+/g, ' '))}`)
+  } else if (attributes.name) {
+    predicates.push(`@name=${toXPathLiteral(attributes.name)}`)
   }
+
+  if (attributes.type) {
+    predicates.push(`@type=${toXPathLiteral(attributes.type)}`)
+  }
+
+  const anchor = findXPathAnchor(element)
+
+  if (!anchor && predicates.length === 0) {
+    return null
+  }
+
+  const base = anchor ? `${anchor}//${attributes.tagName}` : `//${attributes.tagName}`
+  return base + predicates.map((predicate) => `[${predicate}]`).join('')
+}
+
+/**
+ * Finds the nearest ancestor that can anchor an XPath (data-testid first, then id)
+ */
+function findXPathAnchor(element: HTMLElement): string | null {
+  for (let ancestor = element.parentElement; ancestor; ancestor = ancestor.parentElement) {
+    const testId = ancestor.getAttribute('data-testid')
+    if (testId) {
+      return `//*[@data-testid=${toXPathLiteral(testId)}]`
+    }
+
+    if (ancestor.id) {
+      return `//*[@id=${toXPathLiteral(ancestor.id)}]`
+    }
+  }
+
+  return null
+}
+
+/**
+ * Tag of each ancestor up to the body or shadow root, numbered when siblings share it
+ */
+function pathInTree(element: Element): string[] {
+  const parts: string[] = []
+
+  for (
+    let node: Element | null = element;
+    node && node.tagName !== 'BODY' && node.tagName !== 'HTML';
+    node = node.parentElement
+  ) {
+    const tagName = node.tagName.toLowerCase()
+    const sameTag = Array.from((node.parentNode as ParentNode | null)?.children || []).filter(
+      (sibling) => sibling.tagName === node?.tagName
+    )
+    parts.unshift(
+      sameTag.length > 1 ? `${tagName}:nth-of-type(${sameTag.indexOf(node) + 1})` : tagName
+    )
+  }
+
+  return parts
+}
+
+/**
+ * Generates the selector recorded for a shadow host, relative to the tree it lives in
+ * Custom element names are usually shared by every instance, so test ids and ids come first
+ */
+function generateHostSelector(host: Element): string {
+  const tagName = host.tagName.toLowerCase()
+  const testId = host.getAttribute('data-testid')
+
+  if (testId) {
+    return `${tagName}[data-testid="${testId}"]`
+  }
+
+  return host.id ? `${tagName}#${host.id}` : tagName
 }
 
 /**
@@ -238,4 +533,3 @@ function generateContextualCss(element: HTMLElement, attributes: ElementAttribut
 
   return parts.length > 0 ? parts.join(' > ') : null
 }
-
@@ -1,272 +1,421 @@
-import { ElementAttributes, ElementFingerprint, LocatorStrategy, LocatorType } from './types'
+import {
+  ElementAttributes,
+  ElementFingerprint,
+  FeatureScore,
+  HealingCandidate,
+  HealingStrategy,
+  LocatorAttempt,
+  LocatorStrategy,
+  RoleLocator,
+  SearchRoot,
+  TextLocator,
+  TextMatchMode,
+} from './types'
+import { describeElement } from './element-fingerprint'
+import { evaluateXPath, querySelectorAllDeep } from './locator-query'
+import { SimilarityScorer, stringSimilarity } from './similarity-scorer'
+import { getAccessibleName, getAccessibleState, getLabelText, getRole } from './accessibility'
 
 interface MatchResult {
   element: HTMLElement | null
   locator: LocatorStrategy | null
   confidence: number
-  matchedBy: LocatorType | 'similarity'
+  matchedBy: HealingStrategy
+  /** Every alternative locator tried, with its hit/miss outcome */
+  attempts: LocatorAttempt[]
+  /** Scored candidates of the deciding stage, best first */
+  candidates: HealingCandidate[]
+  /** The runner-up scored within the ambiguity margin of the best candidate */
+  ambiguous: boolean
 }
 
+const MAX_REPORTED_CANDIDATES = 5
+
+/**
+ * Per-call matching overrides
+ */
+export interface MatchOptions {
+  confidenceThreshold?: number
+  /** Restricts healing to these strategies (all when omitted) */
+  strategies?: HealingStrategy[]
+  /** Minimum confidence lead the best candidate needs over the runner-up */
+  ambiguityMargin?: number
+  /** Candidates that must never be picked, e.g. heals a reviewer rejected */
+  exclude?: (element: HTMLElement) => boolean
+}
+
+const TEXT_MATCH_MODES: TextMatchMode[] = ['exact', 'trimmed', 'case-insensitive', 'fuzzy']
+
+// Looser text comparisons are less trustworthy
+const TEXT_MODE_CONFIDENCE: Record<TextMatchMode, number> = {
+  exact: 1,
+  trimmed: 1,
+  'case-insensitive': 0.9,
+  fuzzy: 0.8,
+}
+
+const FUZZY_TEXT_THRESHOLD = 0.8
+
 /**
  * AI-inspired element matcher that finds elements using multiple strategies
  */
 export class ElementMatcher {
   private confidenceThreshold: number
-
-  constructor(confidenceThreshold = 0.6) {
+  private maxAlternatives: number
+  private ambiguityMargin: number
+  private scorer: SimilarityScorer
+  private strategyConfidence: Partial<Record<HealingStrategy, number>> = {}
+
+  constructor(
+    confidenceThreshold = 0.6,
+    maxAlternatives = 12,
+    ambiguityMargin = 0.05,
+    scorer = new SimilarityScorer()
+  ) {
     this.confidenceThreshold = confidenceThreshold
+    this.maxAlternatives = maxAlternatives
+    this.ambiguityMargin = ambiguityMargin
+    this.scorer = scorer
+  }
+
+  /**
+   * Replaces the confidence recorded with each alternative locator by a calibrated one
+   */
+  setStrategyConfidence(confidences: Partial<Record<HealingStrategy, number>>): void {
+    this.strategyConfidence = { ...confidences }
   }
 
   /**
    * Attempts to find an element using the fingerprint's alternative locators
+   * Only elements under `root` are considered: pass the application-under-test
+   * document (from cy.document()), never the spec iframe's global `document`
+   * When several elements score within the ambiguity margin of each other, later strategies
+   * get a chance to single one out before the ambiguous result is returned
+   * Open shadow roots are searched too, scoped to the recorded shadow host when it still resolves
    */
-  findElement(fingerprint: ElementFingerprint): MatchResult {
+  findElement(
+    fingerprint: ElementFingerprint,
+    searchRoot: SearchRoot,
+    options: MatchOptions = {}
+  ): MatchResult {
+    const root = this.resolveShadowScope(fingerprint.shadowHosts, searchRoot)
+    const attempts: LocatorAttempt[] = []
+    const threshold = options.confidenceThreshold ?? this.confidenceThreshold
+    const margin = options.ambiguityMargin ?? this.ambiguityMargin
+    let ambiguousMatch: Omit<MatchResult, 'attempts'> | null = null
+    const isAllowed = (strategy: HealingStrategy) =>
+      !options.strategies || options.strategies.includes(strategy)
+    const isCandidate = (element: HTMLElement) => !options.exclude?.(element)
+
+    const locators = fingerprint.alternativeLocators
+      .filter((locator) => isAllowed(locator.type))
+      .slice(0, this.maxAlternatives)
+
     // Try each alternative locator in priority order
-    for (const locator of fingerprint.alternativeLocators) {
+    for (const locator of locators) {
+      let resolved: { elements: HTMLElement[]; confidence: number }
+
       try {
-        const elements = document.querySelectorAll(locator.value)
-
-        if (elements.length === 1) {
-          return {
-            element: elements[0] as HTMLElement,
-            locator,
-            confidence: locator.confidence,
-            matchedBy: locator.type,
-          }
+        resolved = this.resolveLocator(locator, root)
+      } catch (error) {
+        // Invalid selector: report it and continue to the next strategy
+        attempts.push({
+          type: locator.type,
+          value: locator.value,
+          outcome: 'error',
+          matches: 0,
+          error: (error as Error).message,
+        })
+        continue
+      }
+
+      const elements = resolved.elements.filter(isCandidate)
+      const { confidence } = resolved
+      attempts.push({
+        type: locator.type,
+        value: locator.value,
+        outcome: elements.length === 0 ? 'none' : elements.length === 1 ? 'unique' : 'multiple',
+        matches: elements.length,
+      })
+
+      if (elements.length === 1) {
+        return {
+          element: elements[0],
+          locator,
+          confidence,
+          matchedBy: locator.type,
+          attempts,
+          candidates: [
+            { description: describeElement(elements[0]), confidence, strategy: locator.type },
+          ],
+          ambiguous: false,
         }
+      }
 
-        // If multiple elements found, try to narrow down using attributes
-        if (elements.length > 1) {
-          const bestMatch = this.findBestMatch(
-            Array.from(elements) as HTMLElement[],
-            fingerprint.attributes
-          )
-          if (bestMatch.confidence >= this.confidenceThreshold) {
-            return {
-              ...bestMatch,
-              locator,
-              matchedBy: locator.type,
-            }
+      // If multiple elements found, try to narrow down using attributes
+      if (elements.length > 1) {
+        const bestMatch = this.findBestMatch(elements, fingerprint.attributes, locator.type, margin)
+        if (bestMatch.confidence >= threshold) {
+          const match = { ...bestMatch, locator, matchedBy: locator.type }
+          if (!match.ambiguous) {
+            return { ...match, attempts }
           }
+          ambiguousMatch = ambiguousMatch || match
         }
-      } catch {
-        // Invalid selector, continue to next
-        continue
       }
     }
 
-    // Last resort: similarity-based search
-    return this.findBySimilarity(fingerprint.attributes)
-  }
+    // Similarity search ranks a superset of these elements, it can't break the tie
+    if (ambiguousMatch) {
+      return { ...ambiguousMatch, attempts }
+    }
 
-  /**
-   * Finds the best matching element from a list using attribute similarity
-   */
-  private findBestMatch(
-    elements: HTMLElement[],
-    targetAttributes: ElementAttributes
-  ): { element: HTMLElement | null; confidence: number } {
-    let bestElement: HTMLElement | null = null
-    let bestScore = 0
-
-    for (const element of elements) {
-      const score = this.calculateSimilarityScore(element, targetAttributes)
-      if (score > bestScore) {
-        bestScore = score
-        bestElement = element
+    if (!isAllowed('similarity')) {
+      return {
+        element: null,
+        locator: null,
+        confidence: 0,
+        matchedBy: 'similarity',
+        attempts,
+        candidates: [],
+        ambiguous: false,
       }
     }
 
+    // Last resort: similarity-based search
     return {
-      element: bestElement,
-      confidence: bestScore,
+      ...this.findBySimilarity(fingerprint.attributes, root, margin, isCandidate),
+      attempts,
     }
   }
 
   /**
-   * Searches the entire DOM for elements similar to the fingerprint
+   * Picks the element that best fits the fingerprint among several matches of a locator
+   * Only attribute similarity is used: the locator itself already narrowed the candidates
    */
-  private findBySimilarity(targetAttributes: ElementAttributes): MatchResult {
-    if (!targetAttributes.tagName) {
-      return { element: null, locator: null, confidence: 0, matchedBy: 'similarity' }
-    }
-
-    const candidates = document.querySelectorAll(targetAttributes.tagName)
-    const { element, confidence } = this.findBestMatch(
-      Array.from(candidates) as HTMLElement[],
-      targetAttributes
-    )
-
+  pickElement(
+    fingerprint: ElementFingerprint,
+    elements: HTMLElement[],
+    options: MatchOptions = {}
+  ): MatchResult {
     return {
-      element,
+      ...this.findBestMatch(
+        elements.filter((element) => !options.exclude?.(element)),
+        fingerprint.attributes,
+        'similarity',
+        options.ambiguityMargin ?? this.ambiguityMargin
+      ),
       locator: null,
-      confidence,
       matchedBy: 'similarity',
+      attempts: [],
     }
   }
 
   /**
-   * Calculates a similarity score between an element and target attributes
-   * Uses weighted scoring for different attribute types
+   * Follows the recorded shadow host chain down to the innermost shadow root
+   * Falls back to the whole root (searched deeply) when a host is gone or no longer unique
    */
-  calculateSimilarityScore(element: HTMLElement, target: ElementAttributes): number {
-    const weights = {
-      text: 0.25,
-      ariaLabel: 0.2,
-      dataAttributes: 0.15,
-      placeholder: 0.1,
-      name: 0.1,
-      className: 0.05,
-      position: 0.1,
-      role: 0.05,
-    }
-
-    let totalScore = 0
-    let totalWeight = 0
-
-    // Text similarity
-    if (target.text) {
-      const elementText = element.textContent?.trim() || ''
-      const textSimilarity = this.stringSimilarity(elementText, target.text)
-      totalScore += textSimilarity * weights.text
-      totalWeight += weights.text
-    }
+  private resolveShadowScope(hosts: string[] | undefined, root: SearchRoot): SearchRoot {
+    let scope: SearchRoot = root
 
-    // aria-label
-    if (target.ariaLabel) {
-      const elementAriaLabel = element.getAttribute('aria-label') || ''
-      const ariaScore = elementAriaLabel === target.ariaLabel ? 1 : 0
-      totalScore += ariaScore * weights.ariaLabel
-      totalWeight += weights.ariaLabel
-    }
-
-    // data attributes
-    if (target.dataAttributes) {
-      let dataScore = 0
-      let dataCount = 0
-      for (const [key, value] of Object.entries(target.dataAttributes)) {
-        const elementValue = element.getAttribute(key)
-        if (elementValue === value) {
-          dataScore += 1
-        }
-        dataCount++
+    for (const selector of hosts || []) {
+      let matches: HTMLElement[]
+      try {
+        matches = querySelectorAllDeep(scope, selector)
+      } catch {
+        return root
       }
-      if (dataCount > 0) {
-        totalScore += (dataScore / dataCount) * weights.dataAttributes
-        totalWeight += weights.dataAttributes
+
+      if (matches.length !== 1 || !matches[0].shadowRoot) {
+        return root
       }
+      scope = matches[0].shadowRoot
     }
 
-    // Placeholder
-    if (target.placeholder) {
-      const elementPlaceholder = element.getAttribute('placeholder') || ''
-      const placeholderScore = elementPlaceholder === target.placeholder ? 1 : 0
-      totalScore += placeholderScore * weights.placeholder
-      totalWeight += weights.placeholder
-    }
+    return scope
+  }
 
-    // Name attribute
-    if (target.name) {
-      const elementName = element.getAttribute('name') || ''
-      const nameScore = elementName === target.name ? 1 : 0
-      totalScore += nameScore * weights.name
-      totalWeight += weights.name
+  /**
+   * Resolves a single locator strategy to the elements it matches under the root
+   */
+  private resolveLocator(
+    locator: LocatorStrategy,
+    root: SearchRoot
+  ): { elements: HTMLElement[]; confidence: number } {
+    const confidence = this.strategyConfidence[locator.type] ?? locator.confidence
+
+    if (locator.type === 'text' && locator.text) {
+      return this.findByText(locator.text, confidence, root)
     }
 
-    // Class similarity (partial match)
-    if (target.className) {
-      const elementClasses = new Set(element.className.split(' '))
-      const targetClasses = new Set(target.className.split(' '))
-      const intersection = [...targetClasses].filter((c) => elementClasses.has(c))
-      const classScore = intersection.length / targetClasses.size
-      totalScore += classScore * weights.className
-      totalWeight += weights.className
+    if (locator.type === 'label' && locator.label) {
+      return this.findByText(
+        locator.label,
+        confidence,
+        root,
+        (element) => getLabelText(element) || ''
+      )
     }
 
-    // Position proximity (if position data available)
-    if (target.position) {
-      const rect = element.getBoundingClientRect()
-      const positionScore = this.calculatePositionSimilarity(rect, target.position)
-      totalScore += positionScore * weights.position
-      totalWeight += weights.position
+    if (locator.type === 'role' && locator.role) {
+      return this.findByRole(locator.role, confidence, root)
     }
 
-    // Role
-    if (target.role) {
-      const elementRole = element.getAttribute('role') || ''
-      const roleScore = elementRole === target.role ? 1 : 0
-      totalScore += roleScore * weights.role
-      totalWeight += weights.role
+    if (locator.type === 'xpath') {
+      return { elements: evaluateXPath(locator.value, root), confidence }
     }
 
-    return totalWeight > 0 ? totalScore / totalWeight : 0
+    return { elements: querySelectorAllDeep(root, locator.value), confidence }
   }
 
   /**
-   * Calculates string similarity using Levenshtein distance
+   * Walks candidate elements by tag and compares their normalized text (or accessible name),
+   * from the strictest mode down to the locator's loosest allowed mode
    */
-  private stringSimilarity(str1: string, str2: string): number {
-    if (str1 === str2) return 1
-    if (!str1 || !str2) return 0
+  private findByText(
+    locator: TextLocator,
+    baseConfidence: number,
+    root: SearchRoot,
+    textOf: (element: HTMLElement) => string = (element) => element.textContent || ''
+  ): { elements: HTMLElement[]; confidence: number } {
+    const candidates = querySelectorAllDeep(root, locator.tagName)
+    const modes = TEXT_MATCH_MODES.slice(0, TEXT_MATCH_MODES.indexOf(locator.mode) + 1)
+
+    for (const mode of modes) {
+      const elements = candidates.filter((element) =>
+        this.textMatches(textOf(element), locator.text, mode)
+      )
+      if (elements.length > 0) {
+        return { elements, confidence: baseConfidence * TEXT_MODE_CONFIDENCE[mode] }
+      }
+    }
 
-    const longer = str1.length > str2.length ? str1 : str2
-    const shorter = str1.length > str2.length ? str2 : str1
+    return { elements: [], confidence: baseConfidence }
+  }
 
-    if (longer.length === 0) return 1
+  /**
+   * Finds elements with the role and accessible name, like Testing Library's getByRole
+   * When some of them are also in the recorded state (checked, disabled), only those are kept
+   */
+  private findByRole(
+    locator: RoleLocator,
+    baseConfidence: number,
+    root: SearchRoot
+  ): { elements: HTMLElement[]; confidence: number } {
+    const withRole = querySelectorAllDeep(root, '*').filter(
+      (element) => getRole(element) === locator.role
+    )
+    const modes = TEXT_MATCH_MODES.slice(0, TEXT_MATCH_MODES.indexOf(locator.mode) + 1)
+
+    for (const mode of modes) {
+      const named = withRole.filter((element) =>
+        this.textMatches(getAccessibleName(element) || '', locator.name, mode)
+      )
+      if (named.length > 0) {
+        const inState = named.filter((element) => {
+          const state = getAccessibleState(element)
+          return state.checked === locator.checked && !!state.disabled === !!locator.disabled
+        })
+        return {
+          elements: inState.length > 0 ? inState : named,
+          confidence: baseConfidence * TEXT_MODE_CONFIDENCE[mode],
+        }
+      }
+    }
 
-    const distance = this.levenshteinDistance(longer, shorter)
-    return (longer.length - distance) / longer.length
+    return { elements: [], confidence: baseConfidence }
   }
 
   /**
-   * Levenshtein distance algorithm
+   * Compares element text against the expected text using the given mode
    */
-  private levenshteinDistance(str1: string, str2: string): number {
-    const matrix: number[][] = []
-
-    for (let i = 0; i <= str2.length; i++) {
-      matrix[i] = [i]
+  textMatches(actual: string, expected: string, mode: TextMatchMode): boolean {
+    const normalize = (text: string) => text.replace(/\s+/g, ' ').trim()
+
+    switch (mode) {
+      case 'exact':
+        return actual === expected
+      case 'trimmed':
+        return normalize(actual) === normalize(expected)
+      case 'case-insensitive':
+        return normalize(actual).toLowerCase() === normalize(expected).toLowerCase()
+      case 'fuzzy':
+        return (
+          stringSimilarity(normalize(actual).toLowerCase(), normalize(expected).toLowerCase()) >=
+          FUZZY_TEXT_THRESHOLD
+        )
     }
+  }
 
-    for (let j = 0; j <= str1.length; j++) {
-      matrix[0][j] = j
-    }
+  /**
+   * Ranks elements by attribute similarity and picks the best one
+   * The pick is ambiguous when the runner-up is less than `margin` behind it
+   */
+  private findBestMatch(
+    elements: HTMLElement[],
+    targetAttributes: ElementAttributes,
+    strategy: HealingStrategy,
+    margin: number
+  ): Pick<MatchResult, 'element' | 'confidence' | 'candidates' | 'ambiguous'> {
+    const ranked = elements
+      .map((element) => {
+        const breakdown = this.scorer.explain(element, targetAttributes)
+        return { element, breakdown, score: this.scorer.calibrate(sumContributions(breakdown)) }
+      })
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score)
 
-    for (let i = 1; i <= str2.length; i++) {
-      for (let j = 1; j <= str1.length; j++) {
-        if (str2.charAt(i - 1) === str1.charAt(j - 1)) {
-          matrix[i][j] = matrix[i - 1][j - 1]
-        } else {
-          matrix[i][j] = Math.min(
-            matrix[i - 1][j - 1] + 1,
-            matrix[i][j - 1] + 1,
-            matrix[i - 1][j] + 1
-          )
-        }
-      }
+    return {
+      element: ranked[0]?.element || null,
+      confidence: ranked[0]?.score || 0,
+      candidates: ranked.slice(0, MAX_REPORTED_CANDIDATES).map(({ element, breakdown, score }) => ({
+        description: describeElement(element),
+        confidence: score,
+        strategy,
+        breakdown,
+      })),
+      ambiguous: ranked.length > 1 && ranked[0].score - ranked[1].score < margin,
     }
-
-    return matrix[str2.length][str1.length]
   }
 
   /**
-   * Calculates position similarity based on distance
+   * Searches the whole root, open shadow trees included, for elements similar to the fingerprint
    */
-  private calculatePositionSimilarity(
-    rect: DOMRect,
-    target: { x: number; y: number; width: number; height: number }
-  ): number {
-    const maxDistance = 200 // pixels
-    const distance = Math.sqrt(Math.pow(rect.x - target.x, 2) + Math.pow(rect.y - target.y, 2))
+  private findBySimilarity(
+    targetAttributes: ElementAttributes,
+    root: SearchRoot,
+    margin: number,
+    isCandidate: (element: HTMLElement) => boolean
+  ): Omit<MatchResult, 'attempts'> {
+    if (!targetAttributes.tagName) {
+      return {
+        element: null,
+        locator: null,
+        confidence: 0,
+        matchedBy: 'similarity',
+        candidates: [],
+        ambiguous: false,
+      }
+    }
 
-    const sizeMatch =
-      Math.abs(rect.width - target.width) < 50 && Math.abs(rect.height - target.height) < 50
-        ? 0.5
-        : 0
+    const elements = querySelectorAllDeep(root, targetAttributes.tagName).filter(isCandidate)
 
-    const positionMatch = Math.max(0, 1 - distance / maxDistance) * 0.5
+    return {
+      ...this.findBestMatch(elements, targetAttributes, 'similarity', margin),
+      locator: null,
+      matchedBy: 'similarity',
+    }
+  }
 
-    return positionMatch + sizeMatch
+  /**
+   * Calculates a similarity score between an element and target attributes
+   * Uses the weighted features of the scorer (see SimilarityScorer.explain for the breakdown)
+   */
+  calculateSimilarityScore(element: HTMLElement, target: ElementAttributes): number {
+    return this.scorer.score(element, target)
   }
 }
 
+function sumContributions(breakdown: FeatureScore[]): number {
+  return breakdown.reduce((sum, feature) => sum + feature.contribution, 0)
+}
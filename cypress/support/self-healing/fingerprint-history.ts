@@ -0,0 +1,270 @@
+import { ElementAttributes, ElementFingerprint, FingerprintVersion, ParentInfo } from './types'
+
+/**
+ * One attribute of a fingerprint compared with another capture
+ */
+export interface AttributeDiff {
+  attribute: string
+  stored?: string
+  current?: string
+  changed: boolean
+}
+
+export interface FingerprintHistoryOptions {
+  /** Run the captures belong to */
+  runId: string
+  /** Versions kept per element, the current one included */
+  maxVersions: number
+  /** Consistent captures a changed element needs before it becomes the current version */
+  promoteAfter: number
+}
+
+// Differ from one capture to the next without the element having changed
+const VOLATILE_ATTRIBUTES = ['position', 'value', 'checked', 'disabled']
+
+/**
+ * Versions fingerprints instead of overwriting them on every capture
+ * A capture that differs from the current version is only promoted once the same capture
+ * was observed `promoteAfter` times in a row, so one odd render can't walk the fingerprint
+ * away from what the test author registered
+ */
+export class FingerprintHistory {
+  constructor(private options: FingerprintHistoryOptions) {}
+
+  /**
+   * Applies a capture taken while the primary locator worked
+   */
+  observe(
+    existing: ElementFingerprint | undefined,
+    captured: ElementFingerprint
+  ): ElementFingerprint {
+    return this.apply(existing, captured, this.options.promoteAfter)
+  }
+
+  /**
+   * Applies a capture taken by cy.registerForHealing(): the author's intent wins at once
+   */
+  register(
+    existing: ElementFingerprint | undefined,
+    captured: ElementFingerprint
+  ): ElementFingerprint {
+    return this.apply(existing, captured, 1)
+  }
+
+  /**
+   * Makes an earlier version current again, as a new version that records where it came from
+   */
+  rollback(fingerprint: ElementFingerprint, version: number): ElementFingerprint {
+    const target = getVersion(fingerprint, version)
+    const { candidate: _candidate, ...current } = withBaseline(fingerprint)
+
+    return this.promote(
+      current,
+      {
+        ...current,
+        attributes: target.attributes,
+        alternativeLocators: target.alternativeLocators,
+        lastSeen: new Date(),
+      },
+      version
+    )
+  }
+
+  private apply(
+    existing: ElementFingerprint | undefined,
+    captured: ElementFingerprint,
+    promoteAfter: number
+  ): ElementFingerprint {
+    if (!existing) {
+      return this.promote(undefined, captured)
+    }
+
+    const { candidate, ...current } = withBaseline(existing)
+
+    // Same element: refresh what moves (position, value) without a new version
+    if (!hasDrifted(current.attributes, captured.attributes)) {
+      return {
+        ...captured,
+        healCount: current.healCount,
+        version: current.version,
+        history: current.history,
+      }
+    }
+
+    const observations =
+      candidate && !hasDrifted(candidate.attributes, captured.attributes)
+        ? candidate.observations + 1
+        : 1
+
+    if (observations >= promoteAfter) {
+      return this.promote(current, captured)
+    }
+
+    return {
+      ...current,
+      lastSeen: captured.lastSeen,
+      candidate: {
+        capturedAt: observations > 1 && candidate ? candidate.capturedAt : capturedAt(captured),
+        runId: this.options.runId,
+        attributes: captured.attributes,
+        alternativeLocators: captured.alternativeLocators,
+        observations,
+      },
+    }
+  }
+
+  private promote(
+    existing: ElementFingerprint | undefined,
+    captured: ElementFingerprint,
+    restoredFrom?: number
+  ): ElementFingerprint {
+    const version = (existing?.version ?? 0) + 1
+    const entry: FingerprintVersion = {
+      version,
+      capturedAt: capturedAt(captured),
+      runId: this.options.runId,
+      attributes: captured.attributes,
+      alternativeLocators: captured.alternativeLocators,
+      ...(restoredFrom !== undefined && { restoredFrom }),
+    }
+
+    const { candidate: _candidate, ...fingerprint } = captured
+    return {
+      ...fingerprint,
+      healCount: existing?.healCount ?? captured.healCount,
+      version,
+      history: [...(existing?.history || []), entry].slice(-this.options.maxVersions),
+    }
+  }
+}
+
+/**
+ * Whether two captures differ in more than the attributes that change on their own
+ */
+export function hasDrifted(stored: ElementAttributes, current: ElementAttributes): boolean {
+  return diffAttributes(stored, current).some(
+    (diff) => diff.changed && !VOLATILE_ATTRIBUTES.includes(diff.attribute)
+  )
+}
+
+/**
+ * Compares two versions of a fingerprint kept in its history
+ */
+export function diffFingerprintVersions(
+  fingerprint: ElementFingerprint,
+  from: number,
+  to: number
+): AttributeDiff[] {
+  return diffAttributes(
+    getVersion(fingerprint, from).attributes,
+    getVersion(fingerprint, to).attributes
+  )
+}
+
+/**
+ * Compares the attributes stored in a fingerprint with another capture's attributes
+ * Data attributes are compared one by one; position and parent are compared as text
+ */
+export function diffAttributes(
+  stored: ElementAttributes,
+  current: ElementAttributes
+): AttributeDiff[] {
+  const before = flattenAttributes(stored)
+  const after = flattenAttributes(current)
+  const names = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+
+  return names.map((attribute) => ({
+    attribute,
+    stored: before[attribute],
+    current: after[attribute],
+    changed: before[attribute] !== after[attribute],
+  }))
+}
+
+function getVersion(fingerprint: ElementFingerprint, version: number): FingerprintVersion {
+  const entry = withBaseline(fingerprint).history?.find((v) => v.version === version)
+  if (!entry) {
+    throw new Error(
+      `"${fingerprint.name}" has no version ${version} (kept: ${listVersions(fingerprint)})`
+    )
+  }
+  return entry
+}
+
+function listVersions(fingerprint: ElementFingerprint): string {
+  return (withBaseline(fingerprint).history || []).map((v) => v.version).join(', ')
+}
+
+/**
+ * Fingerprints stored before versions were recorded become their own version 1
+ */
+function withBaseline(fingerprint: ElementFingerprint): ElementFingerprint {
+  if (fingerprint.history?.length) {
+    return fingerprint
+  }
+
+  return {
+    ...fingerprint,
+    version: 1,
+    history: [
+      {
+        version: 1,
+        capturedAt: capturedAt(fingerprint),
+        attributes: fingerprint.attributes,
+        alternativeLocators: fingerprint.alternativeLocators,
+      },
+    ],
+  }
+}
+
+function capturedAt(fingerprint: { lastSeen?: Date }): Date {
+  return fingerprint.lastSeen ? new Date(fingerprint.lastSeen) : new Date()
+}
+
+function flattenAttributes(attributes: ElementAttributes): Record<string, string> {
+  const flat: Record<string, string> = {}
+  // innerText duplicates text
+  const {
+    dataAttributes,
+    position,
+    parentInfo,
+    structure,
+    innerText: _innerText,
+    ...plain
+  } = attributes
+
+  Object.entries(plain).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') {
+      flat[key] = String(value)
+    }
+  })
+
+  Object.entries(dataAttributes || {}).forEach(([key, value]) => {
+    flat[key] = value
+  })
+
+  if (position) {
+    flat.position = `${Math.round(position.x)},${Math.round(position.y)} ${Math.round(position.width)}×${Math.round(position.height)}`
+  }
+
+  if (parentInfo) {
+    flat.parent = formatNode(parentInfo)
+  }
+
+  if (structure) {
+    // Outermost first, like a breadcrumb
+    flat.ancestors = [...structure.ancestors].reverse().map(formatNode).join(' › ')
+    flat.siblingIndex = String(structure.siblingIndex)
+    flat.neighbourLabels = structure.neighbourLabels.join(' | ')
+  }
+
+  return flat
+}
+
+function formatNode(node: ParentInfo): string {
+  return (
+    node.tagName +
+    (node.id ? `#${node.id}` : '') +
+    (node.className ? `.${node.className.split(' ').join('.')}` : '')
+  )
+}
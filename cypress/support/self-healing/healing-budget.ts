@@ -0,0 +1,132 @@
+import { BudgetBreach, HealingBudget, HealingBudgetRule, HealingEvent } from './types'
+import { formatPercent, groupBy } from './utils'
+
+/**
+ * Checks healing events against the configured budgets
+ * Runs on the Node side, where events from every spec of the run are collected
+ */
+export class HealingBudgetPolicy {
+  constructor(private budget: HealingBudget) {}
+
+  /**
+   * Whether any limit is configured at all
+   */
+  isEnabled(): boolean {
+    return Object.values(this.budget).some((limit) => limit !== undefined)
+  }
+
+  /**
+   * Lists every budget the events exceed, run-wide budgets first
+   */
+  evaluate(events: HealingEvent[]): BudgetBreach[] {
+    const { maxHeals, maxHealsPerSpec, maxHealsPerElement, confidenceFloor } = this.budget
+    const breaches: BudgetBreach[] = []
+
+    if (maxHeals !== undefined && events.length > maxHeals) {
+      breaches.push(
+        breach('maxHeals', maxHeals, events.length, `${events.length} heals in the run`)
+      )
+    }
+
+    if (maxHealsPerElement !== undefined) {
+      groupBy(events, (event) => event.elementName).forEach((elementEvents, elementName) => {
+        if (elementEvents.length > maxHealsPerElement) {
+          breaches.push(
+            breach(
+              'maxHealsPerElement',
+              maxHealsPerElement,
+              elementEvents.length,
+              `"${elementName}" healed ${elementEvents.length} times`,
+              { elementName }
+            )
+          )
+        }
+      })
+    }
+
+    if (confidenceFloor !== undefined) {
+      const limit = this.budget.maxLowConfidenceHeals ?? 0
+      const weak = events.filter((event) => event.confidence < confidenceFloor)
+      if (weak.length > limit) {
+        const names = Array.from(new Set(weak.map((event) => event.elementName)))
+        breaches.push(
+          breach(
+            'maxLowConfidenceHeals',
+            limit,
+            weak.length,
+            `${weak.length} heals below ${formatPercent(confidenceFloor)} confidence (${names.join(', ')})`
+          )
+        )
+      }
+    }
+
+    groupBy(events, (event) => event.testFile).forEach((specEvents, testFile) => {
+      if (maxHealsPerSpec !== undefined && specEvents.length > maxHealsPerSpec) {
+        breaches.push(
+          breach(
+            'maxHealsPerSpec',
+            maxHealsPerSpec,
+            specEvents.length,
+            `${specEvents.length} heals in ${testFile}`,
+            { testFile }
+          )
+        )
+      }
+
+      breaches.push(...this.evaluateStrategies(specEvents, testFile))
+    })
+
+    return breaches
+  }
+
+  /**
+   * One breach per element healed with a forbidden strategy in the spec
+   * Disambiguated heals are left out: the primary locator still matched, the strategy
+   * only picked one of its matches
+   */
+  private evaluateStrategies(specEvents: HealingEvent[], testFile: string): BudgetBreach[] {
+    const forbidden = this.budget.forbiddenStrategies || []
+    const weakHeals = specEvents.filter(
+      (event) => event.primaryMatch !== 'disambiguated' && forbidden.includes(event.strategy)
+    )
+
+    return Array.from(groupBy(weakHeals, (event) => event.elementName).entries()).map(
+      ([elementName, elementEvents]) => {
+        const strategies = Array.from(new Set(elementEvents.map((event) => event.strategy)))
+        return breach(
+          'forbiddenStrategies',
+          0,
+          elementEvents.length,
+          `"${elementName}" healed with the ${strategies.join(', ')} strategy in ${testFile}`,
+          { testFile, elementName }
+        )
+      }
+    )
+  }
+}
+
+/**
+ * Formats breaches as one line per budget, with its limit
+ */
+export function formatBudgetBreaches(breaches: BudgetBreach[]): string {
+  return breaches
+    .map((b) => `  ${b.rule}: ${b.message} (budget: ${b.limit}, actual: ${b.actual})`)
+    .join('\n')
+}
+
+function breach(
+  rule: HealingBudgetRule,
+  limit: number,
+  actual: number,
+  message: string,
+  scope: { testFile?: string; elementName?: string } = {}
+): BudgetBreach {
+  return {
+    id: [rule, scope.testFile || '', scope.elementName || ''].join('|'),
+    rule,
+    ...scope,
+    limit,
+    actual,
+    message,
+  }
+}
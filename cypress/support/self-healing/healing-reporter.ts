@@ -1,5 +1,58 @@
-import { HealingEvent, HealingReport, HealingSummary, LocatorType } from './types'
+import {
+  HealingAttempt,
+  HealingEvent,
+  HealingReport,
+  HealingStats,
+  HealingSummary,
+  LocatorType,
+} from './types'
 import { locatorStore } from './locator-store'
+import { groupBy } from './utils'
+
+/**
+ * Minimal SARIF 2.1.0 log: one run, one result per heal
+ */
+export interface SarifLog {
+  $schema: string
+  version: '2.1.0'
+  runs: Array<{
+    tool: { driver: { name: string; rules: SarifRule[] } }
+    results: SarifResult[]
+  }>
+}
+
+interface SarifRule {
+  id: string
+  shortDescription: { text: string }
+  defaultConfiguration: { level: 'warning' | 'note' }
+}
+
+interface SarifResult {
+  ruleId: string
+  level: 'warning' | 'note'
+  message: { text: string }
+  locations: Array<{
+    physicalLocation: {
+      artifactLocation: { uri: string; uriBaseId: string }
+      region?: { startLine: number }
+    }
+  }>
+  properties: Record<string, unknown>
+}
+
+// A locator matching several elements still works, it's just not specific enough
+const SARIF_RULES: SarifRule[] = [
+  {
+    id: 'broken-locator',
+    shortDescription: { text: 'Locator no longer matches its element and was healed' },
+    defaultConfiguration: { level: 'warning' },
+  },
+  {
+    id: 'non-unique-locator',
+    shortDescription: { text: 'Locator matches several elements and was disambiguated' },
+    defaultConfiguration: { level: 'note' },
+  },
+]
 
 /**
  * Generates comprehensive healing reports
@@ -10,20 +63,23 @@ export class HealingReporter {
    */
   generateReport(): HealingReport {
     const events = locatorStore.getHealingEvents()
+    const attempts = locatorStore.getHealingAttempts()
 
     return {
       generatedAt: new Date(),
       totalTests: this.countUniqueTests(events),
       totalHealingEvents: events.length,
+      totalHealingAttempts: attempts.length,
       events,
-      summary: this.generateSummary(events),
+      attempts,
+      summary: this.generateSummary(events, attempts),
     }
   }
 
   /**
    * Generates a summary of healing events
    */
-  private generateSummary(events: HealingEvent[]): HealingSummary {
+  private generateSummary(events: HealingEvent[], attempts: HealingAttempt[]): HealingSummary {
     const byStrategy: Record<string, number> = {}
     const byElement: Record<string, number> = {}
     let totalConfidence = 0
@@ -39,14 +95,70 @@ export class HealingReporter {
       totalConfidence += event.confidence
     })
 
+    const healed = attempts.filter((attempt) => attempt.outcome === 'healed').length
+
     return {
       byStrategy: byStrategy as Record<LocatorType, number>,
       byElement,
       averageConfidence: events.length > 0 ? totalConfidence / events.length : 0,
-      successRate: 1, // All recorded events are successful healings
+      successRate: attempts.length > 0 ? healed / attempts.length : 1,
+      successByElement: this.generateStats(attempts, (attempt) => attempt.elementName),
+      // Attempts without any candidate have no strategy to attribute
+      successByStrategy: this.generateStats(attempts, (attempt) => attempt.strategy),
     }
   }
 
+  /**
+   * Computes success statistics for attempts grouped by the given key
+   */
+  private generateStats(
+    attempts: HealingAttempt[],
+    keyOf: (attempt: HealingAttempt) => string | undefined
+  ): Record<string, HealingStats> {
+    const groups = groupBy(
+      attempts.filter((attempt) => keyOf(attempt)),
+      (attempt) => keyOf(attempt) as string
+    )
+
+    const stats: Record<string, HealingStats> = {}
+
+    groups.forEach((group, key) => {
+      const healed = group.filter((attempt) => attempt.outcome === 'healed').length
+      const confidences = group.map((attempt) => attempt.bestConfidence)
+
+      stats[key] = {
+        attempts: group.length,
+        healed,
+        successRate: healed / group.length,
+        lowestConfidence: Math.min(...confidences),
+        averageConfidence: confidences.reduce((sum, c) => sum + c, 0) / group.length,
+      }
+    })
+
+    return stats
+  }
+
+  /**
+   * Elements whose weakest attempt is closest to (or below) the confidence threshold
+   */
+  getAtRiskElements(
+    report: HealingReport,
+    limit = 10
+  ): Array<{ elementName: string; margin: number }> {
+    const thresholds: Record<string, number> = {}
+    report.attempts.forEach((attempt) => {
+      thresholds[attempt.elementName] = attempt.threshold
+    })
+
+    return Object.entries(report.summary.successByElement)
+      .map(([elementName, stats]) => ({
+        elementName,
+        margin: stats.lowestConfidence - thresholds[elementName],
+      }))
+      .sort((a, b) => a.margin - b.margin)
+      .slice(0, limit)
+  }
+
   /**
    * Counts unique tests that had healing events
    */
@@ -72,6 +184,89 @@ export class HealingReporter {
     `.trim()
   }
 
+  /**
+   * Generates a JUnit XML report with one test case per heal, grouped in a suite per spec
+   * Heals are warnings, not failures: each test case carries a `warning` property
+   */
+  generateJUnitReport(events: HealingEvent[]): string {
+    const specs = groupBy(events, (event) => event.testFile)
+
+    let xml = '<?xml version="1.0" encoding="UTF-8"?>\n'
+    xml += `<testsuites name="Self-Healing" tests="${events.length}" failures="0" errors="0">\n`
+
+    specs.forEach((specEvents, testFile) => {
+      xml += `  <testsuite name="${escapeXml(testFile)}" tests="${specEvents.length}" failures="0" errors="0">\n`
+
+      specEvents.forEach((event) => {
+        const line = event.line ? ` line="${event.line}"` : ''
+        xml += `    <testcase name="${escapeXml(event.elementName)}" classname="${escapeXml(`${testFile} › ${event.testName}`)}" file="${escapeXml(testFile)}"${line}>\n`
+        xml += '      <properties>\n'
+        ;[
+          ['warning', describeHeal(event)],
+          ['originalLocator', event.originalLocator],
+          ['healedLocator', event.healedLocator],
+          ['strategy', event.strategy],
+          ['confidence', event.confidence.toFixed(3)],
+        ].forEach(([name, value]) => {
+          xml += `        <property name="${name}" value="${escapeXml(value)}"/>\n`
+        })
+        xml += '      </properties>\n'
+        xml += `      <system-out>${escapeXml(describeHeal(event))}</system-out>\n`
+        xml += '    </testcase>\n'
+      })
+
+      xml += '  </testsuite>\n'
+    })
+
+    return `${xml}</testsuites>\n`
+  }
+
+  /**
+   * Generates a SARIF log with one result per heal, located at the cy.heal() call when it
+   * could be found
+   */
+  generateSarifReport(events: HealingEvent[]): SarifLog {
+    return {
+      $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+      version: '2.1.0',
+      runs: [
+        {
+          tool: {
+            driver: {
+              name: 'self-healing-cypress',
+              rules: SARIF_RULES,
+            },
+          },
+          results: events.map((event) => {
+            const rule = event.primaryMatch === 'disambiguated' ? SARIF_RULES[1] : SARIF_RULES[0]
+
+            return {
+              ruleId: rule.id,
+              level: rule.defaultConfiguration.level,
+              message: { text: describeHeal(event) },
+              locations: [
+                {
+                  physicalLocation: {
+                    artifactLocation: { uri: event.testFile, uriBaseId: '%SRCROOT%' },
+                    ...(event.line && { region: { startLine: event.line } }),
+                  },
+                },
+              ],
+              properties: {
+                elementName: event.elementName,
+                originalLocator: event.originalLocator,
+                healedLocator: event.healedLocator,
+                strategy: event.strategy,
+                confidence: event.confidence,
+                testName: event.testName,
+              },
+            }
+          }),
+        },
+      ],
+    }
+  }
+
   /**
    * Generates a markdown report
    */
@@ -88,6 +283,8 @@ export class HealingReporter {
 | Metric | Value |
 |--------|-------|
 | Total Healing Events | ${report.totalHealingEvents} |
+| Healing Attempts | ${report.totalHealingAttempts} |
+| Success Rate | ${(summary.successRate * 100).toFixed(1)}% |
 | Tests Affected | ${report.totalTests} |
 | Average Confidence | ${(summary.averageConfidence * 100).toFixed(1)}% |
 
@@ -118,6 +315,22 @@ export class HealingReporter {
         markdown += `| ${element} | ${count} |\n`
       })
 
+    const atRisk = this.getAtRiskElements(report)
+    if (atRisk.length > 0) {
+      markdown += `
+
+## Elements Closest to Becoming Unhealable
+
+| Element | Success Rate | Lowest Confidence | Margin to Threshold |
+|---------|--------------|-------------------|---------------------|
+`
+
+      atRisk.forEach(({ elementName, margin }) => {
+        const stats = summary.successByElement[elementName]
+        markdown += `| ${elementName} | ${(stats.successRate * 100).toFixed(0)}% | ${(stats.lowestConfidence * 100).toFixed(0)}% | ${(margin * 100).toFixed(0)}% |\n`
+      })
+    }
+
     if (report.events.length > 0) {
       markdown += `
 
@@ -143,5 +356,44 @@ export class HealingReporter {
   }
 }
 
-export const healingReporter = new HealingReporter()
+/**
+ * One-line description of a heal, e.g. for CI annotations
+ */
+function describeHeal(event: HealingEvent): string {
+  return (
+    `${describeSource(event)} ` +
+    (event.primaryMatch === 'disambiguated' ? 'matches several elements' : 'is broken') +
+    `; healed via ${event.strategy} to ${event.healedLocator} ` +
+    `(${(event.confidence * 100).toFixed(0)}% confidence)`
+  )
+}
 
+/**
+ * The spec code the healed locator is written in, as CI annotations name it
+ */
+function describeSource(event: HealingEvent): string {
+  switch (event.source) {
+    case 'page':
+      return `Page element ${event.pageElement} ('${event.originalLocator}')`
+    case 'get':
+      return `cy.get('${event.originalLocator}')`
+    case 'contains':
+      // Auto-capture writes cy.contains() calls as `contains(<selector>, <content>)`
+      return `cy.${event.originalLocator}`
+    case 'frame':
+      return `Frame locator '${event.originalLocator}'`
+    default:
+      return `cy.heal('${event.originalLocator}', '${event.elementName}')`
+  }
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+export const healingReporter = new HealingReporter()
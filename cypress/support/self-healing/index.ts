@@ -9,136 +9,776 @@
  */
 
 export * from './types'
+export * from './config'
 export * from './element-fingerprint'
 export * from './element-matcher'
 export * from './locator-store'
 export * from './healing-reporter'
+export * from './healing-budget'
+export * from './similarity-scorer'
+export * from './locator-query'
+export * from './accessibility'
+export * from './fingerprint-history'
+export * from './page-objects'
+export * from './auto-capture'
+export * from './locator-stability'
+export * from './utils'
 
-import { captureElementFingerprint } from './element-fingerprint'
+import { DEFAULT_CONFIG, resolveConfig } from './config'
+import { frameworkQueryOptions, shouldAutoCapture } from './auto-capture'
+import {
+  captureElementFingerprint,
+  collectionItemName,
+  describeElement,
+  elementPath,
+  extractAttributes,
+  selectStableLocator,
+} from './element-fingerprint'
 import { ElementMatcher } from './element-matcher'
+import { getFrameDocument, isFrameElement, isXPathLocator, queryLocator } from './locator-query'
 import { locatorStore } from './locator-store'
 import { healingReporter } from './healing-reporter'
-import { ElementFingerprint, HealingEvent, SelfHealingConfig } from './types'
+import { formatBudgetBreaches } from './healing-budget'
+import { FingerprintHistory } from './fingerprint-history'
+import { ScoringFeature, SimilarityScorer } from './similarity-scorer'
+import {
+  BudgetBreach,
+  ElementFingerprint,
+  FeatureScore,
+  HealingAttempt,
+  HealingCandidate,
+  HealingContext,
+  HealingEvent,
+  HealOptions,
+  HealReview,
+  HealReviewStatus,
+  HealSnapshot,
+  LocatorAttempt,
+  LocatorStoreSnapshot,
+  LocatorUpdate,
+  RegisterOptions,
+  ScoringCalibration,
+  SearchRoot,
+  SelfHealingConfig,
+} from './types'
+
+interface HealedOutcome {
+  element: HTMLElement
+  event: HealingEvent
+  attempt: HealingAttempt
+  locatorAttempts: LocatorAttempt[]
+}
+
+interface HealFailure {
+  element: null
+  attempt: HealingAttempt
+  error: string
+}
+
+type HealOutcome = HealedOutcome | HealFailure
 
 /**
  * Main self-healing engine that orchestrates element finding and healing
  */
 export class SelfHealingEngine {
   private matcher: ElementMatcher
+  private scorer: SimilarityScorer
+  private history: FingerprintHistory
   private config: SelfHealingConfig
+  private pendingTasks: Array<{ name: string; arg: unknown }> = []
+  private pendingSnapshots: Array<{ element: HTMLElement; snapshot: HealSnapshot }> = []
+  private pendingFailures: Map<object, HealingAttempt> = new Map()
+  // Reviewers' decisions per element name, by candidateKey()
+  private reviewDecisions: Map<string, Map<string, HealReviewStatus>> = new Map()
 
-  constructor(config: Partial<SelfHealingConfig> = {}) {
-    this.config = {
-      enabled: true,
-      confidenceThreshold: 0.6,
-      maxAlternatives: 5,
-      reportPath: 'cypress/reports/healing-report.json',
-      autoUpdateLocators: false,
-      ...config,
-    }
-    this.matcher = new ElementMatcher(this.config.confidenceThreshold)
+  /**
+   * @param calibration - Weights fitted from the healing history, replacing the default
+   * feature weights; config.scoringWeights still override them
+   * @param runId - Recorded with every fingerprint version this engine captures
+   */
+  constructor(
+    config: Partial<SelfHealingConfig> = {},
+    calibration: ScoringCalibration | null = null,
+    runId = new Date().toISOString()
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config }
+    this.history = new FingerprintHistory({
+      runId,
+      maxVersions: this.config.fingerprintHistorySize,
+      promoteAfter: this.config.promoteAfterObservations,
+    })
+    this.scorer = new SimilarityScorer(this.config.scoringWeights)
+    this.scorer.setCalibratedWeights(calibration?.featureWeights || null)
+    this.scorer.setCalibration(calibration?.platt || null)
+    this.matcher = new ElementMatcher(
+      this.config.confidenceThreshold,
+      this.config.maxAlternatives,
+      this.config.ambiguityMargin,
+      this.scorer
+    )
+    this.matcher.setStrategyConfidence(calibration?.strategyConfidence || {})
+  }
+
+  /**
+   * Adds a similarity feature, or replaces the built-in one with the same name
+   * @example selfHealingEngine.registerScoringFeature(defineFeature({ name: 'i18nKey', ... }))
+   */
+  registerScoringFeature(feature: ScoringFeature<unknown>): void {
+    this.scorer.register(feature)
   }
 
   /**
-   * Attempts to find an element, using self-healing if primary locator fails
+   * Removes a similarity feature, e.g. `text` when the app's copy is localized
    */
-  findElement(
+  unregisterScoringFeature(name: string): void {
+    this.scorer.unregister(name)
+  }
+
+  /**
+   * Gets the effective configuration
+   */
+  getConfig(): SelfHealingConfig {
+    return { ...this.config }
+  }
+
+  /**
+   * Builds a retry-able query for Cypress.Commands.addQuery
+   * The primary locator is polled first; when it finds nothing, healing only kicks in after
+   * the grace period, and both are re-run on every retry until the command times out
+   * In single mode the locator must resolve to one element: several matches are narrowed
+   * down with the fingerprint. In collection mode every match is yielded
+   * With a `frame` option, the frame chain is resolved (and healed) first and the element
+   * is looked up in the innermost frame document
+   */
+  createHealQuery(
     primaryLocator: string,
     elementName: string,
-    context: { testFile: string; testName: string }
-  ): Cypress.Chainable<JQuery<HTMLElement>> {
-    return cy.document().then((doc) => {
-      // First, try the primary locator
-      const primaryResult = doc.querySelectorAll(primaryLocator)
+    context: HealingContext,
+    options: HealOptions = {}
+  ): () => JQuery<HTMLElement> {
+    const enabled = options.enabled ?? this.config.enabled
+    const collection = options.collection ?? false
+    const frameLocators = toFrameChain(options.frame)
+    const startedAt = Date.now()
+    let healedElements: HTMLElement[] = []
+    const healedFrames = new Set<HTMLElement>()
+    const queryKey = {}
+    // Retries of one command are a single observation of the element, not several
+    let framesObserved = false
+    let elementObserved = false
+
+    return () => {
+      // The element may simply not have rendered yet
+      const canHeal = enabled && Date.now() - startedAt >= this.config.healingGracePeriod
+
+      const frame = this.resolveFrames(
+        getAutDocument(),
+        frameLocators,
+        context,
+        options,
+        canHeal,
+        !framesObserved
+      )
+
+      if ('error' in frame) {
+        this.pendingFailures.set(queryKey, frame.attempt)
+        throw new Error(frame.error)
+      }
+      framesObserved = true
+
+      frame.heals.forEach((heal) => {
+        if (!healedFrames.has(heal.element)) {
+          healedFrames.add(heal.element)
+          // Frame locators are passed in the options object, which isn't rewritten
+          this.recordHeal(heal, false)
+        }
+      })
+
+      const { doc } = frame
+
+      // First, try the primary locator (CSS or XPath)
+      const primaryResult = queryLocator(primaryLocator, doc)
+
+      if (primaryResult.length === 1 || (collection && primaryResult.length > 0)) {
+        // Primary locator works - update fingerprints
+        if (!elementObserved) {
+          this.saveFingerprints(
+            primaryResult,
+            elementName,
+            primaryLocator,
+            collection,
+            frameLocators,
+            false
+          )
+          elementObserved = true
+        }
+        this.pendingFailures.delete(queryKey)
+
+        return Cypress.$(primaryResult)
+      }
+
+      // Primary locator failed or is ambiguous - attempt self-healing
+      if (!enabled) {
+        throw new Error(
+          primaryResult.length === 0
+            ? `Element not found: ${primaryLocator}`
+            : `Expected one element, found ${primaryResult.length}: ${primaryLocator}`
+        )
+      }
+
+      // Several matches have rendered already; only a locator finding nothing may be early
+      if (!canHeal && primaryResult.length === 0) {
+        throw new Error(
+          `Element "${elementName}" not found with ${primaryLocator}, ` +
+            `waiting ${this.config.healingGracePeriod}ms before self-healing`
+        )
+      }
+
+      const outcome = collection
+        ? this.healCollection(doc, primaryLocator, elementName, context, options)
+        : this.healAndFind(doc, primaryLocator, elementName, context, options, primaryResult)
+
+      if ('error' in outcome) {
+        // Only the last failure of this query is recorded, once the test ends
+        this.pendingFailures.set(queryKey, outcome.attempt)
+        throw new Error(outcome.error)
+      }
+
+      this.pendingFailures.delete(queryKey)
+
+      const healed = Array.isArray(outcome) ? outcome : [outcome]
+      const elements = healed.map(({ element }) => element)
+
+      if (frame.path.length > 0) {
+        healed.forEach(({ event }) => (event.frame = frame.path))
+      }
+
+      // Retries triggered by chained assertions shouldn't record the same heal twice
+      if (
+        elements.length !== healedElements.length ||
+        elements.some((element, index) => element !== healedElements[index])
+      ) {
+        healedElements = elements
+        healed.forEach((item) => this.recordHeal(item))
+      }
+
+      return Cypress.$(elements)
+    }
+  }
+
+  /**
+   * Wraps the query function of a plain cy.get() or cy.contains() call for
+   * env.selfHealing.autoCapture; calls its allow and deny lists leave out keep their query
+   * An element the original query finds is fingerprinted as `elementName`; once it finds
+   * nothing past the grace period, the element is healed through that fingerprint, among the
+   * elements `scope` returns for the query's subject (the whole page when it returns null).
+   * An element the command has already found is gone, not broken (e.g. a spinner awaited
+   * with should('not.exist')), so it is never healed.
+   * Without a fingerprint, the query fails as it always did. Heals aren't written back to
+   * specs, which have no cy.heal() call to rewrite
+   */
+  createAutoCaptureQuery(
+    locator: string,
+    elementName: string,
+    context: HealingContext,
+    query: (subject: unknown) => JQuery<HTMLElement>,
+    scope: (subject: unknown) => JQuery<HTMLElement> | HTMLElement | null = () => null,
+    queryOptions?: unknown
+  ): (subject: unknown) => JQuery<HTMLElement> {
+    if (!shouldAutoCapture(locator, this.config.autoCapture, queryOptions)) {
+      return query
+    }
+
+    const startedAt = Date.now()
+    let healedElement: HTMLElement | null = null
+    const queryKey = {}
+    let observed = false
+
+    return (subject) => {
+      const $el = query(subject)
+
+      if ($el.length > 0) {
+        // Which of several matches the test is after can't be told, so only one is captured
+        if (!observed && $el.length === 1) {
+          this.saveFingerprints([$el[0]], elementName, locator, false, [], false)
+        }
+        observed = true
+        this.pendingFailures.delete(queryKey)
+        return $el
+      }
+
+      if (
+        !this.config.enabled ||
+        observed ||
+        Date.now() - startedAt < this.config.healingGracePeriod ||
+        !locatorStore.hasFingerprint(elementName)
+      ) {
+        return $el
+      }
+
+      const root = getSearchRoot(scope(subject))
+      const outcome = this.healAndFind(root, locator, elementName, context, {}, [])
+
+      if ('error' in outcome) {
+        // The original query keeps retrying, and fails with its own error
+        this.pendingFailures.set(queryKey, outcome.attempt)
+        return $el
+      }
+
+      this.pendingFailures.delete(queryKey)
+
+      if (outcome.element !== healedElement) {
+        healedElement = outcome.element
+        this.recordHeal(outcome, false)
+      }
+
+      return Cypress.$(outcome.element)
+    }
+  }
+
+  /**
+   * Resolves a chain of frame locators down to the innermost frame document
+   * Frames are fingerprinted like elements (as `frame:<locators>`), so a broken frame locator
+   * is healed too; `path` lists the locators that actually led to the document
+   * With `observe`, frames found by their locator count as an observation for their fingerprint
+   */
+  private resolveFrames(
+    doc: Document,
+    frameLocators: string[],
+    context: HealingContext,
+    options: HealOptions,
+    canHeal: boolean,
+    observe: boolean
+  ): { doc: Document; path: string[]; heals: HealedOutcome[] } | HealFailure {
+    const path: string[] = []
+    const heals: HealedOutcome[] = []
+    let current = doc
+
+    for (let index = 0; index < frameLocators.length; index++) {
+      const locator = frameLocators[index]
+      const name = frameFingerprintName(frameLocators.slice(0, index + 1))
+      const frames = queryLocator(locator, current).filter(isFrameElement)
+      let frame: HTMLElement
 
-      if (primaryResult.length === 1) {
-        // Primary locator works - update fingerprint
-        const element = primaryResult[0] as HTMLElement
-        const fingerprint = captureElementFingerprint(element, elementName, primaryLocator)
-        locatorStore.saveFingerprint(fingerprint)
+      if (frames.length === 1) {
+        frame = frames[0]
+        if (observe) {
+          this.storeFingerprint(
+            captureElementFingerprint(
+              frame,
+              name,
+              locator,
+              undefined,
+              frameLocators.slice(0, index)
+            ),
+            false
+          )
+        }
+        path.push(locator)
+      } else if (!canHeal) {
+        throw new Error(`Frame not found: ${locator}`)
+      } else {
+        const outcome = this.healAndFind(
+          current,
+          locator,
+          name,
+          { testFile: context.testFile, testName: context.testName, source: 'frame' },
+          options,
+          frames
+        )
+        if ('error' in outcome) {
+          return outcome
+        }
+        if (!isFrameElement(outcome.element)) {
+          throw new Error(`Frame ${locator} healed to a <${outcome.element.tagName.toLowerCase()}>`)
+        }
 
-        return cy.wrap(Cypress.$(element))
+        frame = outcome.element
+        outcome.event.frame = path.slice()
+        heals.push(outcome)
+        path.push(outcome.event.healedLocator)
       }
 
-      // Primary locator failed - attempt self-healing
-      if (!this.config.enabled) {
-        throw new Error(`Element not found: ${primaryLocator}`)
+      const frameDocument = (frame as HTMLIFrameElement).contentDocument
+      if (!frameDocument) {
+        throw new Error(`Frame ${locator} is cross-origin or not loaded yet`)
       }
+      current = frameDocument
+    }
 
-      return this.healAndFind(primaryLocator, elementName, context)
+    return { doc: current, path, heals }
+  }
+
+  /**
+   * Fingerprints every frame of a chain that resolves, so it can be healed later
+   */
+  private saveFrameFingerprints(doc: Document, frameLocators: string[]): void {
+    frameLocators.forEach((locator, index) => {
+      const parent = getFrameDocument(doc, frameLocators.slice(0, index))
+      const [frame] = parent ? queryLocator(locator, parent).filter(isFrameElement) : []
+
+      if (frame) {
+        const name = frameFingerprintName(frameLocators.slice(0, index + 1))
+        this.storeFingerprint(
+          captureElementFingerprint(frame, name, locator, undefined, frameLocators.slice(0, index)),
+          true
+        )
+      }
     })
   }
 
+  /**
+   * Fingerprints the elements a working primary locator matched
+   * Collection items are stored as `name[index]` so each one can be healed on its own
+   */
+  private saveFingerprints(
+    elements: HTMLElement[],
+    elementName: string,
+    primaryLocator: string,
+    collection: boolean,
+    framePath: string[],
+    register: boolean
+  ): ElementFingerprint[] {
+    return elements.map((element, index) => {
+      const captured = collection
+        ? captureElementFingerprint(
+            element,
+            collectionItemName(elementName, index),
+            primaryLocator,
+            index,
+            framePath
+          )
+        : captureElementFingerprint(element, elementName, primaryLocator, undefined, framePath)
+      return this.storeFingerprint(captured, register)
+    })
+  }
+
+  /**
+   * Stores a capture as a new version of the element's fingerprint
+   * A registration replaces the current version at once; a changed capture seen while
+   * testing only does after promoteAfterObservations consistent observations
+   */
+  private storeFingerprint(captured: ElementFingerprint, register: boolean): ElementFingerprint {
+    const existing = locatorStore.getFingerprint(captured.name)
+    const fingerprint = register
+      ? this.history.register(existing, captured)
+      : this.history.observe(existing, captured)
+
+    locatorStore.saveFingerprint(fingerprint)
+    return fingerprint
+  }
+
+  /**
+   * Heals every fingerprinted item of a collection whose locator matches nothing
+   * Items that no longer resemble anything on the page are dropped
+   */
+  private healCollection(
+    doc: Document,
+    primaryLocator: string,
+    elementName: string,
+    context: HealingContext,
+    options: HealOptions
+  ): HealedOutcome[] | HealFailure {
+    const outcomes: HealOutcome[] = []
+
+    // List items look alike by design: their position tells them apart, not a clear lead
+    const itemOptions = { ...options, ambiguityMargin: 0 }
+
+    for (
+      let index = 0;
+      index === 0 || locatorStore.hasFingerprint(collectionItemName(elementName, index));
+      index++
+    ) {
+      const itemName = collectionItemName(elementName, index)
+      outcomes.push(this.healAndFind(doc, primaryLocator, itemName, context, itemOptions, []))
+    }
+
+    const healed: HealedOutcome[] = []
+    outcomes.forEach((outcome) => {
+      // Several items may heal to the same element
+      if (outcome.element && !healed.some(({ element }) => element === outcome.element)) {
+        outcome.event.primaryMatch = 'collection'
+        healed.push(outcome)
+      }
+    })
+
+    return healed.length > 0 ? healed : (outcomes[0] as HealFailure)
+  }
+
   /**
    * Performs the self-healing process
+   * Every outcome is described by a HealingAttempt; failures carry the error to throw,
+   * so the query is retried until the timeout
    */
   private healAndFind(
+    root: SearchRoot,
     primaryLocator: string,
     elementName: string,
-    context: { testFile: string; testName: string }
-  ): Cypress.Chainable<JQuery<HTMLElement>> {
+    context: HealingContext,
+    options: HealOptions,
+    primaryMatches: HTMLElement[]
+  ): HealOutcome {
+    const threshold = options.confidenceThreshold ?? this.config.confidenceThreshold
     const fingerprint = locatorStore.getFingerprint(elementName)
+    const attempt: HealingAttempt = {
+      timestamp: new Date(),
+      elementName,
+      originalLocator: primaryLocator,
+      outcome: 'no-fingerprint',
+      bestConfidence: 0,
+      threshold,
+      runnerUps: [],
+      testFile: context.testFile,
+      testName: context.testName,
+    }
+
+    const disambiguating = primaryMatches.length > 1
 
     if (!fingerprint) {
-      throw new Error(
-        `Element "${elementName}" not found and no fingerprint available for self-healing. ` +
-          `Original locator: ${primaryLocator}`
-      )
+      return {
+        element: null,
+        attempt,
+        error: disambiguating
+          ? `Locator ${primaryLocator} matches ${primaryMatches.length} elements and no ` +
+            `fingerprint of "${elementName}" is available to pick one. ` +
+            `Use { collection: true } to get all of them`
+          : `Element "${elementName}" not found and no fingerprint available for self-healing. ` +
+            `Original locator: ${primaryLocator}`,
+      }
     }
 
-    // Use the matcher to find the element
-    const result = this.matcher.findElement(fingerprint)
+    // A locator matching several elements is narrowed down rather than discarded
+    const decisions = this.reviewDecisions.get(elementName)
+    const matchOptions = {
+      confidenceThreshold: threshold,
+      strategies: options.strategies,
+      ambiguityMargin: options.ambiguityMargin,
+      exclude: decisions
+        ? (element: HTMLElement) => decisions.get(candidateKey(element)) === 'rejected'
+        : undefined,
+    }
+    const result = disambiguating
+      ? this.matcher.pickElement(fingerprint, primaryMatches, matchOptions)
+      : this.matcher.findElement(fingerprint, root, matchOptions)
 
-    if (!result.element || result.confidence < this.config.confidenceThreshold) {
-      throw new Error(
-        `Self-healing failed for "${elementName}". ` +
+    attempt.bestConfidence = result.confidence
+    attempt.strategy = result.element ? result.matchedBy : undefined
+    attempt.runnerUps = result.candidates.slice(1)
+
+    if (!result.element || result.confidence < threshold) {
+      attempt.outcome = result.element ? 'below-threshold' : 'no-candidate'
+      return {
+        element: null,
+        attempt,
+        error:
+          `Self-healing failed for "${elementName}". ` +
           `Best match confidence: ${(result.confidence * 100).toFixed(1)}% ` +
-          `(threshold: ${(this.config.confidenceThreshold * 100).toFixed(1)}%)`
-      )
+          `(threshold: ${(threshold * 100).toFixed(1)}%)\n` +
+          formatAttempts(result.attempts),
+      }
     }
 
-    // Record the healing event
-    const healingEvent: HealingEvent = {
-      timestamp: new Date(),
-      elementName,
-      originalLocator: primaryLocator,
-      healedLocator: result.locator?.value || 'similarity-based',
-      strategy: result.matchedBy,
-      confidence: result.confidence,
-      testFile: context.testFile,
-      testName: context.testName,
+    // Picking the wrong one of two look-alikes silently is worse than failing
+    if (result.ambiguous && this.config.ambiguousHeals === 'reject') {
+      attempt.outcome = 'ambiguous'
+      return {
+        element: null,
+        attempt,
+        error:
+          `Self-healing for "${elementName}" is ambiguous: ` +
+          `${result.candidates.length} elements match via ${result.matchedBy} with confidences ` +
+          `within ${((options.ambiguityMargin ?? this.config.ambiguityMargin) * 100).toFixed(1)}% ` +
+          `of each other. Make the locator more specific.\n` +
+          formatCandidates(result.candidates),
+      }
+    }
+
+    attempt.outcome = 'healed'
+
+    // Accepted candidates were reviewed already
+    const pendingReview =
+      result.confidence < this.config.autoAcceptThreshold &&
+      decisions?.get(candidateKey(result.element)) !== 'accepted'
+
+    return {
+      element: result.element,
+      attempt,
+      locatorAttempts: result.attempts,
+      event: {
+        timestamp: attempt.timestamp,
+        elementName,
+        originalLocator: primaryLocator,
+        healedLocator:
+          result.locator?.value || (disambiguating ? primaryLocator : 'similarity-based'),
+        strategy: result.matchedBy,
+        confidence: result.confidence,
+        primaryMatch: disambiguating ? 'disambiguated' : 'broken',
+        primaryMatches: primaryMatches.length,
+        ...(result.ambiguous && { ambiguous: true }),
+        ...(pendingReview && { pendingReview: true }),
+        ...(result.candidates[0]?.breakdown && { breakdown: result.candidates[0].breakdown }),
+        source: context.source || 'heal',
+        ...(context.pageElement && { pageElement: context.pageElement }),
+        testFile: context.testFile,
+        testName: context.testName,
+      },
     }
+  }
+
+  /**
+   * Records an accepted heal in the store, the command log and (after the test) the terminal
+   */
+  private recordHeal(outcome: HealedOutcome, proposeUpdate = true): void {
+    const { element, event: healingEvent, attempt, locatorAttempts } = outcome
 
     locatorStore.recordHealingEvent(healingEvent)
+    locatorStore.recordHealingAttempt(attempt)
 
     // Log the healing event visually in Cypress
     Cypress.log({
       name: '🔧 HEALED',
       displayName: '🔧 SELF-HEALED',
-      message: `"${elementName}" found via ${result.matchedBy} (${(result.confidence * 100).toFixed(0)}% confidence)`,
+      message:
+        `"${healingEvent.elementName}" found via ${healingEvent.strategy} (${(healingEvent.confidence * 100).toFixed(0)}% confidence)` +
+        (healingEvent.ambiguous ? ' ⚠️ ambiguous' : '') +
+        (healingEvent.pendingReview ? ' ⏳ pending review' : ''),
       consoleProps: () => ({
-        '🎯 Element Name': elementName,
-        '❌ Original Locator (broken)': primaryLocator,
-        '✅ Healed Locator': result.locator?.value || 'similarity-based',
-        '🔍 Strategy Used': result.matchedBy,
-        '📊 Confidence': `${(result.confidence * 100).toFixed(1)}%`,
-        '📁 Test File': context.testFile,
-        '🧪 Test Name': context.testName,
+        '🎯 Element Name': healingEvent.elementName,
+        '❌ Original Locator (broken)': healingEvent.originalLocator,
+        '✅ Healed Locator': healingEvent.healedLocator,
+        '🔍 Strategy Used': healingEvent.strategy,
+        '📊 Confidence': `${(healingEvent.confidence * 100).toFixed(1)}%`,
+        '📁 Test File': healingEvent.testFile,
+        '🧪 Test Name': healingEvent.testName,
+        '🧭 Strategies Tried': formatAttempts(locatorAttempts),
+        '⚖️ Runner-up Candidates': formatCandidates(attempt.runnerUps),
+        ...(healingEvent.breakdown && {
+          '🧮 Score Breakdown': formatBreakdown(healingEvent.breakdown),
+        }),
       }),
     })
 
-    // Also log to terminal
-    cy.task('logHealingEvent', healingEvent)
+    // Also log to terminal (queries can't enqueue commands, so tasks run after the test)
+    this.pendingTasks.push({ name: 'logHealingEvent', arg: healingEvent })
+
+    // recordHealingEvent already bumped the heal count
+    const fingerprint = locatorStore.getFingerprint(healingEvent.elementName)
 
-    // Update fingerprint with new heal count
-    const updatedFingerprint: ElementFingerprint = {
-      ...fingerprint,
-      healCount: fingerprint.healCount + 1,
-      lastSeen: new Date(),
+    if (healingEvent.pendingReview) {
+      // Specs are only edited once a reviewer accepted the heal
+      if (fingerprint) {
+        this.queueReview(element, healingEvent, fingerprint)
+      }
+    } else if (
+      // A locator unique to one item can't replace the locator of a whole collection
+      this.config.autoUpdateLocators &&
+      proposeUpdate &&
+      healingEvent.primaryMatch !== 'collection'
+    ) {
+      this.queueLocatorUpdate(element, healingEvent)
+    }
+
+    if (fingerprint) {
+      this.pendingSnapshots.push({
+        element,
+        snapshot: {
+          event: healingEvent,
+          fingerprint: fingerprint.attributes,
+          current: extractAttributes(element),
+        },
+      })
+      locatorStore.saveFingerprint({ ...fingerprint, lastSeen: new Date() })
     }
-    locatorStore.saveFingerprint(updatedFingerprint)
+  }
 
-    return cy.wrap(Cypress.$(result.element))
+  /**
+   * Screenshots the elements healed by the query that just resolved, before the test acts on
+   * them, and sends the heals to the HTML report
+   * Queries can't run commands, so the support file calls this when a command ends
+   */
+  screenshotHeals(): void {
+    this.pendingSnapshots.splice(0).forEach(({ element, snapshot }) => {
+      this.saveSnapshot(element, snapshot)
+    })
+  }
+
+  /**
+   * Screenshots a healed element and sends the heal to the HTML report
+   * Elements that are hidden or gone, or live in an iframe, are reported without a screenshot
+   */
+  private saveSnapshot(element: HTMLElement, snapshot: HealSnapshot): void {
+    const { event } = snapshot
+
+    if (!event.frame && Cypress.dom.isAttached(element) && Cypress.dom.isVisible(element)) {
+      const name = `healing/${event.elementName.replace(/[^\w-]/g, '_')}-${new Date(event.timestamp).getTime()}`
+      cy.wrap(element, { log: false }).screenshot(name, {
+        log: false,
+        onAfterScreenshot: (_$el, details) => {
+          snapshot.screenshotPath = details.path
+        },
+      })
+    }
+
+    cy.wrap(null, { log: false }).then(() =>
+      cy.task('recordHealSnapshot', snapshot, { log: false })
+    )
+  }
+
+  /**
+   * Sends a heal below autoAcceptThreshold to the review queue, with a capture of the healed
+   * element that becomes the fingerprint if a reviewer accepts it
+   */
+  private queueReview(
+    element: HTMLElement,
+    event: HealingEvent,
+    fingerprint: ElementFingerprint
+  ): void {
+    const review: Omit<HealReview, 'id'> = {
+      elementName: event.elementName,
+      candidate: describeElement(element),
+      candidatePath: elementPath(element),
+      originalLocator: event.originalLocator,
+      healedLocator: event.healedLocator,
+      strategy: event.strategy,
+      confidence: event.confidence,
+      testFile: event.testFile,
+      testName: event.testName,
+      firstSeen: event.timestamp,
+      lastSeen: event.timestamp,
+      occurrences: 1,
+      status: 'pending',
+      fingerprint: captureElementFingerprint(
+        element,
+        fingerprint.name,
+        fingerprint.primaryLocator,
+        fingerprint.index,
+        fingerprint.framePath
+      ),
+    }
+
+    this.pendingTasks.push({ name: 'queueHealReview', arg: review })
+  }
+
+  /**
+   * Proposes replacing the broken locator in the calling spec with a stable one
+   * Edits are collected on the Node side and written when the run ends
+   */
+  private queueLocatorUpdate(element: HTMLElement, event: HealingEvent): void {
+    const updatedLocator = selectStableLocator(element)
+
+    if (!updatedLocator || updatedLocator === event.originalLocator) {
+      return
+    }
+
+    const update: LocatorUpdate = {
+      testFile: event.testFile,
+      elementName: event.elementName,
+      originalLocator: event.originalLocator,
+      updatedLocator,
+      confidence: event.confidence,
+    }
+
+    this.pendingTasks.push({ name: 'queueLocatorUpdate', arg: update })
   }
 
   /**
@@ -146,12 +786,40 @@ export class SelfHealingEngine {
    */
   registerElement(
     locator: string,
-    elementName: string
+    elementName: string,
+    options: RegisterOptions = {}
   ): Cypress.Chainable<JQuery<HTMLElement>> {
-    return cy.get(locator).then(($el) => {
-      const element = $el[0]
-      const fingerprint = captureElementFingerprint(element, elementName, locator)
-      locatorStore.saveFingerprint(fingerprint)
+    const frameLocators = toFrameChain(options.frame)
+
+    // cy.get neither understands XPath nor looks into iframes, so those are resolved
+    // against the AUT document. Like cy.heal, registration reaches into open shadow roots
+    const found =
+      isXPathLocator(locator) || frameLocators.length > 0
+        ? cy
+            .document({ log: false })
+            .should((doc) => {
+              const frameDocument = getFrameDocument(doc, frameLocators)
+              expect(frameDocument, `frame ${frameLocators.join(' › ')}`).to.not.equal(null)
+              expect(queryLocator(locator, frameDocument as Document), locator).to.not.be.empty
+            })
+            .then((doc) => {
+              this.saveFrameFingerprints(doc, frameLocators)
+              return Cypress.$(
+                queryLocator(locator, getFrameDocument(doc, frameLocators) as Document)
+              )
+            })
+        : cy.get(locator, frameworkQueryOptions({ includeShadowDom: true }))
+
+    return found.then(($el) => {
+      const elements = options.collection ? $el.toArray() : [$el[0]]
+      const fingerprints = this.saveFingerprints(
+        elements,
+        elementName,
+        locator,
+        options.collection ?? false,
+        frameLocators,
+        true
+      )
 
       Cypress.log({
         name: 'registerElement',
@@ -159,7 +827,8 @@ export class SelfHealingEngine {
         consoleProps: () => ({
           elementName,
           locator,
-          alternativeLocators: fingerprint.alternativeLocators.length,
+          items: fingerprints.length,
+          alternativeLocators: fingerprints[0].alternativeLocators.length,
         }),
       })
 
@@ -167,6 +836,62 @@ export class SelfHealingEngine {
     })
   }
 
+  /**
+   * Applies reviewers' decisions to later heals: rejected candidates are never picked again,
+   * accepted ones no longer need review
+   */
+  setReviewDecisions(reviews: HealReview[]): void {
+    this.reviewDecisions.clear()
+    reviews.forEach((review) => {
+      const decisions = this.reviewDecisions.get(review.elementName) || new Map()
+      decisions.set(reviewKey(review), review.status)
+      this.reviewDecisions.set(review.elementName, decisions)
+    })
+  }
+
+  /**
+   * Loads fingerprints persisted by previous tests, specs and runs,
+   * and the decisions reviewers took on heals
+   */
+  loadStore(): Cypress.Chainable<LocatorStoreSnapshot> {
+    cy.task<HealReview[]>('loadHealReviews', null, { log: false }).then((reviews) => {
+      this.setReviewDecisions(reviews)
+    })
+
+    return cy.task<LocatorStoreSnapshot>('loadLocatorStore', null, { log: false }).then((data) => {
+      // Past healing events stay on disk; the report only covers this run
+      locatorStore.importFingerprints(data.fingerprints)
+    })
+  }
+
+  /**
+   * Runs the Node tasks queued by heals during the test, then writes new or updated
+   * fingerprints, healing events and attempts back to the store
+   */
+  flushStore(): Cypress.Chainable<null> {
+    this.pendingTasks.splice(0).forEach(({ name, arg }) => {
+      cy.task(name, arg, { log: false })
+    })
+    // Heals of a query that never resolved, e.g. because its assertions failed
+    this.screenshotHeals()
+
+    // Heal queries that never succeeded during the test
+    this.pendingFailures.forEach((attempt) => locatorStore.recordHealingAttempt(attempt))
+    this.pendingFailures.clear()
+
+    const changes = locatorStore.takeChanges()
+
+    if (
+      changes.fingerprints.length === 0 &&
+      changes.healingEvents.length === 0 &&
+      changes.healingAttempts.length === 0
+    ) {
+      return cy.wrap(null, { log: false })
+    }
+
+    return cy.task('saveLocatorStore', changes, { log: false })
+  }
+
   /**
    * Gets the healing report
    */
@@ -181,8 +906,129 @@ export class SelfHealingEngine {
     const report = healingReporter.generateReport()
     return cy.task('saveHealingReport', report)
   }
+
+  /**
+   * Checks the run's heals so far against the healing budget (after the report is saved)
+   * In strict mode a breach fails the spec, which makes `cypress run` exit non-zero
+   */
+  checkBudget(): Cypress.Chainable<BudgetBreach[]> {
+    return cy
+      .task<BudgetBreach[]>('checkHealingBudget', Cypress.spec.relative, { log: false })
+      .then((breaches) => {
+        if (breaches.length === 0) {
+          return
+        }
+
+        const message = `Healing budget exceeded:\n${formatBudgetBreaches(breaches)}`
+        if (this.config.strictMode) {
+          throw new Error(message)
+        }
+
+        Cypress.log({ name: 'healingBudget', displayName: '⚠️ BUDGET', message })
+      })
+  }
+}
+
+/**
+ * Formats locator attempts as one line per strategy (hit, miss or invalid selector)
+ */
+function formatAttempts(attempts: LocatorAttempt[]): string {
+  return attempts
+    .map((attempt) => {
+      const outcome =
+        attempt.outcome === 'error'
+          ? `error: ${attempt.error}`
+          : `${attempt.outcome} (${attempt.matches})`
+      return `  ${attempt.type} ${attempt.value} → ${outcome}`
+    })
+    .join('\n')
+}
+
+/**
+ * Formats ranked candidates as one line per element, best first
+ */
+function formatCandidates(candidates: HealingCandidate[]): string {
+  return candidates
+    .map(
+      (candidate, index) =>
+        `  ${index + 1}. ${candidate.description} → ${(candidate.confidence * 100).toFixed(1)}%`
+    )
+    .join('\n')
+}
+
+/**
+ * Formats a similarity score as one line per feature, biggest contribution first
+ */
+function formatBreakdown(breakdown: FeatureScore[]): string {
+  return [...breakdown]
+    .sort((a, b) => b.contribution - a.contribution)
+    .map(
+      (feature) =>
+        `  ${feature.feature}: ${(feature.similarity * 100).toFixed(0)}% × ${feature.weight} → ` +
+        `+${(feature.contribution * 100).toFixed(1)}%`
+    )
+    .join('\n')
+}
+
+/**
+ * Key of a review decision: look-alikes share a description, so their path is part of it
+ */
+function reviewKey(review: Pick<HealReview, 'candidate' | 'candidatePath'>): string {
+  return `${review.candidate} @ ${review.candidatePath}`
+}
+
+/**
+ * Key of the review decision that applies to a candidate element
+ */
+function candidateKey(element: HTMLElement): string {
+  return reviewKey({ candidate: describeElement(element), candidatePath: elementPath(element) })
+}
+
+/**
+ * Normalizes the `frame` option to a chain of frame locators, outermost first
+ */
+function toFrameChain(frame: string | string[] | undefined): string[] {
+  if (!frame) {
+    return []
+  }
+
+  return Array.isArray(frame) ? frame : [frame]
+}
+
+/**
+ * Fingerprint name of the innermost frame of a chain, e.g. `frame:#editor › iframe.preview`
+ */
+function frameFingerprintName(frameLocators: string[]): string {
+  return `frame:${frameLocators.join(' › ')}`
 }
 
-// Default engine instance
-export const selfHealingEngine = new SelfHealingEngine()
+/**
+ * Returns the application-under-test document
+ * Queries run synchronously, so cy.document() can't be used here
+ */
+function getAutDocument(): Document {
+  return (cy as unknown as { state(key: 'document'): Document }).state('document')
+}
+
+/**
+ * Where a scoped query heals: its only element, or the closest ancestor of all of them
+ */
+function getSearchRoot(scope: JQuery<HTMLElement> | HTMLElement | null): SearchRoot {
+  const elements = scope ? Cypress.$(scope).toArray() : []
+  let root: HTMLElement | null = elements[0] || null
+
+  while (root && !elements.every((element) => root?.contains(element))) {
+    root = root.parentElement
+  }
+
+  return root || getAutDocument()
+}
 
+// Default engine instance, configured from env.selfHealing in cypress.config.ts
+// and calibrated with the calibrationPath file, which the Node side reads into env
+// along with the id of the run
+export const selfHealingEngine = new SelfHealingEngine(
+  resolveConfig(Cypress.env('selfHealing')),
+  Cypress.env('selfHealingCalibration') || null,
+  Cypress.env('selfHealingRunId')
+)
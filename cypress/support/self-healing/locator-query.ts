@@ -0,0 +1,156 @@
+import { SearchRoot } from './types'
+
+/**
+ * Detects XPath locators (e.g. `//button[@id="x"]`, `./span`, `(//li)[2]`)
+ * CSS selectors can never start with a slash or an opening parenthesis
+ */
+export function isXPathLocator(locator: string): boolean {
+  return /^(\.{0,2}\/|\()/.test(locator.trim())
+}
+
+/**
+ * Resolves a CSS or XPath locator to the elements it matches under the root,
+ * including elements inside open shadow roots
+ */
+export function queryLocator(locator: string, root: SearchRoot): HTMLElement[] {
+  if (isXPathLocator(locator)) {
+    return evaluateXPath(locator, root)
+  }
+
+  return querySelectorAllDeep(root, locator)
+}
+
+/**
+ * querySelectorAll that also searches every open shadow tree under the root
+ * Each tree is matched on its own, so a selector never spans a shadow boundary
+ */
+export function querySelectorAllDeep(root: SearchRoot, selector: string): HTMLElement[] {
+  return getShadowTrees(root).flatMap(
+    (tree) => Array.from(tree.querySelectorAll(selector)) as HTMLElement[]
+  )
+}
+
+/**
+ * Lists the root followed by every open shadow root nested under it, in document order
+ * Closed shadow roots can't be reached from the outside and are skipped
+ */
+export function getShadowTrees(root: SearchRoot): SearchRoot[] {
+  const trees: SearchRoot[] = [root]
+
+  for (let i = 0; i < trees.length; i++) {
+    trees[i].querySelectorAll('*').forEach((element) => {
+      if (element.shadowRoot) {
+        trees.push(element.shadowRoot)
+      }
+    })
+  }
+
+  return trees
+}
+
+/**
+ * Returns the shadow hosts an element is nested in, outermost first
+ */
+export function getShadowHosts(element: Element): Element[] {
+  const hosts: Element[] = []
+
+  for (let node = element.getRootNode(); isShadowRoot(node); node = node.host.getRootNode()) {
+    hosts.unshift(node.host)
+  }
+
+  return hosts
+}
+
+/**
+ * Follows a chain of iframe locators, outermost first, down to the innermost frame document
+ * Returns null when a frame is missing, ambiguous, cross-origin or not loaded yet
+ */
+export function getFrameDocument(doc: Document, frameLocators: string[]): Document | null {
+  let current: Document | null = doc
+
+  for (const locator of frameLocators) {
+    const frames: HTMLElement[] = queryLocator(locator, current).filter(isFrameElement)
+    if (frames.length !== 1) {
+      return null
+    }
+
+    current = (frames[0] as HTMLIFrameElement).contentDocument
+    if (!current) {
+      return null
+    }
+  }
+
+  return current
+}
+
+/**
+ * Checks whether an element is an iframe (or legacy frame) whose document can be searched
+ */
+export function isFrameElement(element: Element): boolean {
+  return element.tagName === 'IFRAME' || element.tagName === 'FRAME'
+}
+
+/**
+ * Evaluates an XPath expression via document.evaluate, in the root and each open shadow tree
+ * Absolute expressions search the whole document, so results outside each tree are dropped
+ * A shadow root is a document fragment, which browsers refuse as a context node, so its
+ * top-level elements are used as context nodes instead
+ */
+export function evaluateXPath(expression: string, root: SearchRoot): HTMLElement[] {
+  const doc = root.nodeType === Node.DOCUMENT_NODE ? (root as Document) : root.ownerDocument
+
+  if (!doc) {
+    return []
+  }
+
+  const elements: HTMLElement[] = []
+
+  getShadowTrees(root).forEach((tree) => {
+    const contexts: Node[] = isShadowRoot(tree) ? Array.from(tree.children) : [tree]
+
+    contexts.forEach((context) => {
+      const snapshot = doc.evaluate(
+        expression,
+        context,
+        null,
+        XPathResult.ORDERED_NODE_SNAPSHOT_TYPE,
+        null
+      )
+
+      for (let i = 0; i < snapshot.snapshotLength; i++) {
+        const node = snapshot.snapshotItem(i)
+        if (
+          node &&
+          node.nodeType === Node.ELEMENT_NODE &&
+          tree.contains(node) &&
+          !elements.includes(node as HTMLElement)
+        ) {
+          elements.push(node as HTMLElement)
+        }
+      }
+    })
+  })
+
+  return elements
+}
+
+/**
+ * Quotes a value as an XPath string literal (XPath 1.0 has no escape sequences)
+ */
+export function toXPathLiteral(value: string): string {
+  if (!value.includes('"')) {
+    return `"${value}"`
+  }
+
+  if (!value.includes("'")) {
+    return `'${value}'`
+  }
+
+  const parts = value.split('"').map((part) => `"${part}"`)
+  return `concat(${parts.join(`, '"', `)})`
+}
+
+// AUT nodes come from another window, so `instanceof ShadowRoot` can't be used
+function isShadowRoot(node: Node): node is ShadowRoot {
+  return node.nodeType === Node.DOCUMENT_FRAGMENT_NODE && 'host' in node
+}
@@ -0,0 +1,165 @@
+import { isXPathLocator } from './locator-query'
+import { ElementAttributes, ElementFingerprint, HealingEvent, LocatorStrategy } from './types'
+
+// Text literals longer than this break on the first copy edit
+const MAX_TEXT_LENGTH = 30
+
+// Alternatives whose value is a readable description rather than a cy.heal() locator
+const DESCRIPTIVE_LOCATOR_TYPES = ['text', 'label', 'role']
+
+/**
+ * Why a primary locator is likely to break
+ * - positional: depends on where the element sits (`:nth-child`, `:first`, `[2]`, `/html/…`)
+ * - class-only: only styling classes tell the element apart
+ * - long-text: matches a long piece of copy
+ * - healed: broke in earlier runs and had to be healed
+ */
+export type LocatorIssue = 'positional' | 'class-only' | 'long-text' | 'healed'
+
+/**
+ * A stored element whose locator or markup could be more stable
+ */
+export interface LocatorFinding {
+  elementName: string
+  /** Short description of the element, e.g. `button#save "Save changes"` */
+  element: string
+  primaryLocator: string
+  issues: LocatorIssue[]
+  /** Most stable alternative locator, when the primary one has issues */
+  suggestedLocator?: string
+  suggestedStrategy?: LocatorStrategy['type']
+  /** Neither a data-testid nor a data-cy attribute to anchor a locator on */
+  missingTestId: boolean
+  /** Heals of the element in the stored healing history */
+  heals: number
+  /** Specs the element was healed in */
+  testFiles: string[]
+}
+
+/**
+ * Lists the fragile traits of a CSS or XPath locator, or of an auto-captured
+ * `contains(…)` locator
+ */
+export function assessLocator(locator: string): LocatorIssue[] {
+  const issues: LocatorIssue[] = []
+  const xpath = isXPathLocator(locator)
+
+  const positional = xpath
+    ? /^\/(?!\/)|\[\s*\d+\s*\]|position\(\)|last\(\)/.test(locator)
+    : /:(nth-child|nth-last-child|nth-of-type|nth-last-of-type|eq|gt|lt)\(|:(first|last)(-child|-of-type)?\b/.test(
+        locator
+      )
+  if (positional) {
+    issues.push('positional')
+  }
+
+  if (!xpath && !locator.startsWith('contains(') && isClassOnly(locator)) {
+    issues.push('class-only')
+  }
+
+  if (textLiterals(locator).some((text) => text.length > MAX_TEXT_LENGTH)) {
+    issues.push('long-text')
+  }
+
+  return issues
+}
+
+/**
+ * Picks the most stable alternative locator of a fingerprint: the highest-priority one
+ * that is a cy.heal() locator, differs from the primary locator, has no issues itself
+ * and matched only the element when it was captured
+ */
+export function suggestStableLocator(fingerprint: ElementFingerprint): LocatorStrategy | null {
+  const alternatives = [...fingerprint.alternativeLocators].sort((a, b) => a.priority - b.priority)
+
+  return (
+    alternatives.find(
+      (locator) =>
+        !DESCRIPTIVE_LOCATOR_TYPES.includes(locator.type) &&
+        locator.unique === true &&
+        locator.value !== fingerprint.primaryLocator &&
+        assessLocator(locator.value).length === 0
+    ) || null
+  )
+}
+
+/**
+ * Runs over every stored fingerprint and the healing history, and lists the elements whose
+ * primary locator is fragile or broke before, or which lack a data-testid/data-cy attribute
+ * Elements healed most often come first. Collection items are analyzed once, through item 0
+ */
+export function analyzeLocatorStability(
+  fingerprints: ElementFingerprint[],
+  events: HealingEvent[]
+): LocatorFinding[] {
+  const findings: LocatorFinding[] = []
+
+  fingerprints
+    .filter((fingerprint) => !fingerprint.index)
+    .forEach((fingerprint) => {
+      const elementEvents = events.filter((event) => event.elementName === fingerprint.name)
+      const issues = assessLocator(fingerprint.primaryLocator)
+      if (elementEvents.length > 0) {
+        issues.push('healed')
+      }
+
+      const data = fingerprint.attributes.dataAttributes || {}
+      const missingTestId = !data['data-testid'] && !data['data-cy']
+
+      if (issues.length === 0 && !missingTestId) {
+        return
+      }
+
+      const suggestion = issues.length > 0 ? suggestStableLocator(fingerprint) : null
+
+      findings.push({
+        elementName: fingerprint.name,
+        element: describeAttributes(fingerprint.attributes),
+        primaryLocator: fingerprint.primaryLocator,
+        issues,
+        ...(suggestion && {
+          suggestedLocator: suggestion.value,
+          suggestedStrategy: suggestion.type,
+        }),
+        missingTestId,
+        heals: elementEvents.length,
+        testFiles: Array.from(new Set(elementEvents.map((event) => event.testFile))),
+      })
+    })
+
+  return findings.sort((a, b) => b.heals - a.heals)
+}
+
+/**
+ * A CSS selector made of tags, classes and combinators only, with at least one class
+ */
+function isClassOnly(selector: string): boolean {
+  return /\.[\w-]/.test(selector) && !/[#[:]/.test(selector)
+}
+
+/**
+ * Quoted literals of a locator that match text, leaving out attribute values
+ * (`[data-testid="…"]`, `@id="…"`)
+ */
+function textLiterals(locator: string): string[] {
+  const withoutAttributes = locator.replace(/@?[\w-]+\s*[~|^$*]?=\s*(['"])(?:\\.|(?!\1).)*\1/g, '')
+  return Array.from(withoutAttributes.matchAll(/(['"])((?:\\.|(?!\1).)*)\1/g), (match) => match[2])
+}
+
+/**
+ * describeElement() for a stored capture, which has no live element
+ */
+function describeAttributes(attributes: ElementAttributes): string {
+  let description = attributes.tagName || 'element'
+
+  if (attributes.id) {
+    description += `#${attributes.id}`
+  }
+
+  const text = attributes.text?.replace(/\s+/g, ' ').trim()
+  if (text) {
+    description += ` "${text.length > 30 ? `${text.substring(0, 30)}…` : text}"`
+  }
+
+  return description
+}
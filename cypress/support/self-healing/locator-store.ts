@@ -1,18 +1,23 @@
-import { ElementFingerprint, HealingEvent } from './types'
+import { ElementFingerprint, HealingAttempt, HealingEvent, LocatorStoreSnapshot } from './types'
 
 /**
  * In-memory store for element fingerprints and healing events
- * In production, this could be persisted to a JSON file or database
+ * Backed by a JSON file on the Node side: loaded at spec start, flushed after each test
  */
 class LocatorStore {
   private fingerprints: Map<string, ElementFingerprint> = new Map()
   private healingEvents: HealingEvent[] = []
+  private healingAttempts: HealingAttempt[] = []
+  private changedFingerprints: Set<string> = new Set()
+  private flushedEventCount = 0
+  private flushedAttemptCount = 0
 
   /**
    * Stores or updates an element fingerprint
    */
   saveFingerprint(fingerprint: ElementFingerprint): void {
     this.fingerprints.set(fingerprint.name, fingerprint)
+    this.changedFingerprints.add(fingerprint.name)
   }
 
   /**
@@ -40,9 +45,24 @@ class LocatorStore {
     if (fingerprint) {
       fingerprint.healCount++
       this.fingerprints.set(event.elementName, fingerprint)
+      this.changedFingerprints.add(event.elementName)
     }
   }
 
+  /**
+   * Records a healing attempt, successful or not
+   */
+  recordHealingAttempt(attempt: HealingAttempt): void {
+    this.healingAttempts.push(attempt)
+  }
+
+  /**
+   * Gets all healing attempts
+   */
+  getHealingAttempts(): HealingAttempt[] {
+    return [...this.healingAttempts]
+  }
+
   /**
    * Gets all healing events
    */
@@ -57,32 +77,66 @@ class LocatorStore {
     return Array.from(this.fingerprints.values())
   }
 
+  /**
+   * Forgets all fingerprints, so only what is loaded again is known
+   */
+  clearFingerprints(): void {
+    this.fingerprints.clear()
+    this.changedFingerprints.clear()
+  }
+
   /**
    * Clears all healing events (useful between test runs)
    */
   clearHealingEvents(): void {
     this.healingEvents = []
+    this.healingAttempts = []
+    this.flushedEventCount = 0
+    this.flushedAttemptCount = 0
   }
 
   /**
-   * Exports the store data for persistence
+   * Imports persisted fingerprints, leaving this session's healing events alone
+   * Imported fingerprints are considered persisted and are not flushed back
    */
-  export(): { fingerprints: ElementFingerprint[]; healingEvents: HealingEvent[] } {
-    return {
-      fingerprints: this.getAllFingerprints(),
-      healingEvents: this.getHealingEvents(),
-    }
+  importFingerprints(fingerprints: ElementFingerprint[]): void {
+    fingerprints.forEach((fp) => {
+      this.fingerprints.set(fp.name, {
+        ...fp,
+        lastSeen: fp.lastSeen ? new Date(fp.lastSeen) : undefined,
+        history: fp.history?.map((version) => ({
+          ...version,
+          capturedAt: new Date(version.capturedAt),
+        })),
+        candidate: fp.candidate && {
+          ...fp.candidate,
+          capturedAt: new Date(fp.candidate.capturedAt),
+        },
+      })
+      this.changedFingerprints.delete(fp.name)
+    })
   }
 
   /**
-   * Imports store data from a previous session
+   * Returns fingerprints, healing events and attempts added since the last call,
+   * so only new or updated data is written back to disk
    */
-  import(data: { fingerprints: ElementFingerprint[]; healingEvents: HealingEvent[] }): void {
-    data.fingerprints.forEach((fp) => this.fingerprints.set(fp.name, fp))
-    this.healingEvents = data.healingEvents
+  takeChanges(): Required<LocatorStoreSnapshot> {
+    const changes: Required<LocatorStoreSnapshot> = {
+      fingerprints: Array.from(this.changedFingerprints)
+        .map((name) => this.fingerprints.get(name))
+        .filter((fp): fp is ElementFingerprint => fp !== undefined),
+      healingEvents: this.healingEvents.slice(this.flushedEventCount),
+      healingAttempts: this.healingAttempts.slice(this.flushedAttemptCount),
+    }
+
+    this.changedFingerprints.clear()
+    this.flushedEventCount = this.healingEvents.length
+    this.flushedAttemptCount = this.healingAttempts.length
+
+    return changes
   }
 }
 
 // Singleton instance
 export const locatorStore = new LocatorStore()
-
@@ -0,0 +1,127 @@
+import { validateHealOptions } from './config'
+import { HealOptions } from './types'
+
+/**
+ * One element of a page object: its locator, plus cy.heal() options such as strategy hints
+ */
+export interface PageElementDefinition extends HealOptions {
+  locator: string
+  /** Fingerprint name; defaults to `<pageName>.<key>`, as names are global to the store */
+  name?: string
+}
+
+/**
+ * Element keys mapped to a locator, or to a locator with options
+ */
+export type PageElements = Record<string, string | PageElementDefinition>
+
+/**
+ * Typed accessors for a page's elements: `page.loginButton()` yields the healed element
+ */
+export type PageObject<T extends PageElements> = {
+  readonly [K in keyof T]: (options?: HealOptions) => Cypress.Chainable<JQuery<HTMLElement>>
+}
+
+/**
+ * A page element resolved to its fingerprint name, e.g. `LoginPage.loginButton`
+ */
+export interface ResolvedPageElement extends PageElementDefinition {
+  name: string
+}
+
+// Fingerprint names are global, so two pages can't define the same one
+const definedNames = new Map<string, string>()
+const pageElements = new WeakMap<object, ResolvedPageElement[]>()
+// Options of the cy.heal() calls made by accessors, to the element they access
+const accessorCalls = new WeakMap<object, string>()
+
+/**
+ * Declares a page object
+ * Element names and options are checked when the page is defined, so a duplicate fingerprint
+ * name or an invalid option fails the spec as it loads rather than when the element is used
+ * @example
+ * const loginPage = definePage('LoginPage', {
+ *   usernameInput: '#username',
+ *   loginButton: { locator: '#login-btn', strategies: ['data-testid', 'text'] },
+ * })
+ * cy.healAll(loginPage)
+ * loginPage.loginButton().click()
+ */
+export function definePage<T extends PageElements>(pageName: string, elements: T): PageObject<T> {
+  const keys = Object.keys(elements)
+  const resolved = keys.map((key) => resolveElement(pageName, key, elements[key]))
+
+  const names = resolved.map((element) => element.name)
+  const duplicates = names.filter((name, index) => names.indexOf(name) !== index)
+  if (duplicates.length > 0) {
+    throw new Error(
+      `Page "${pageName}" defines the element name(s) ${quote(duplicates)} more than once`
+    )
+  }
+
+  const taken = names.filter((name) => definedNames.has(name))
+  if (taken.length > 0) {
+    const owners = taken.map((name) => `"${name}" (${definedNames.get(name)})`)
+    throw new Error(`Page "${pageName}" reuses element names of other pages: ${owners.join(', ')}`)
+  }
+  names.forEach((name) => definedNames.set(name, pageName))
+
+  const page: Record<string, (options?: HealOptions) => Cypress.Chainable<JQuery<HTMLElement>>> = {}
+  resolved.forEach(({ locator, name, ...options }, index) => {
+    page[keys[index]] = (callOptions: HealOptions = {}) => {
+      const healOptions = { ...options, ...callOptions }
+      accessorCalls.set(healOptions, `${pageName}.${keys[index]}`)
+      return cy.heal(locator, name, healOptions)
+    }
+  })
+
+  const pageObject = Object.freeze(page) as PageObject<T>
+  pageElements.set(pageObject, resolved)
+  return pageObject
+}
+
+/**
+ * The elements of a page object, with their fingerprint names, for cy.healAll()
+ */
+export function getPageElements(page: object): ResolvedPageElement[] {
+  const elements = pageElements.get(page)
+  if (!elements) {
+    throw new Error('Not a page object: create it with definePage()')
+  }
+  return elements
+}
+
+/**
+ * The page element, e.g. `LoginPage.loginButton`, whose accessor made a cy.heal() call with
+ * these options; undefined for calls written in the spec
+ */
+export function getAccessedPageElement(options: object): string | undefined {
+  return accessorCalls.get(options)
+}
+
+function resolveElement(
+  pageName: string,
+  key: string,
+  element: string | PageElementDefinition
+): ResolvedPageElement {
+  const { locator, name, ...options } =
+    typeof element === 'string' ? { locator: element } : (element as PageElementDefinition)
+
+  if (typeof locator !== 'string' || locator.trim() === '') {
+    throw new Error(`Element "${key}" of page "${pageName}" needs a locator`)
+  }
+
+  try {
+    validateHealOptions(options)
+  } catch (error) {
+    throw new Error(`Element "${key}" of page "${pageName}": ${(error as Error).message}`)
+  }
+
+  return { ...options, locator, name: name || `${pageName}.${key}` }
+}
+
+function quote(names: string[]): string {
+  return Array.from(new Set(names))
+    .map((name) => `"${name}"`)
+    .join(', ')
+}
@@ -0,0 +1,381 @@
+import { extractStructure } from './element-fingerprint'
+import { getAccessibleName, getRole, LABELABLE_TAGS } from './accessibility'
+import { ElementAttributes, FeatureScore, ParentInfo, ScoringCalibration } from './types'
+
+/**
+ * One named feature of the similarity score
+ * The feature only counts when the fingerprint has a value for it
+ */
+export interface ScoringFeature<T> {
+  name: string
+  weight: number
+  /** Reads the feature from the fingerprint; undefined leaves the feature out of the score */
+  fromFingerprint: (target: ElementAttributes) => T | undefined
+  /** Reads the feature from a candidate element */
+  fromElement: (element: HTMLElement) => T
+  /** Similarity between the element's value and the fingerprint's, from 0 to 1 */
+  compare: (actual: T, expected: T) => number
+}
+
+/**
+ * Type-checks a feature's readers against its comparison, for registration with the scorer
+ * @example defineFeature<string>({ name: 'i18nKey', weight: 0.3, ..., compare: exactMatch })
+ */
+export function defineFeature<T>(feature: ScoringFeature<T>): ScoringFeature<unknown> {
+  // A feature only ever compares the values it read itself, so its type can be forgotten
+  return feature as unknown as ScoringFeature<unknown>
+}
+
+/**
+ * Same value (1) or not (0)
+ */
+export function exactMatch(actual: unknown, expected: unknown): number {
+  return actual === expected ? 1 : 0
+}
+
+/**
+ * Similarity of two strings using Levenshtein distance
+ */
+export function stringSimilarity(str1: string, str2: string): number {
+  if (str1 === str2) return 1
+  if (!str1 || !str2) return 0
+
+  const longer = str1.length > str2.length ? str1 : str2
+  const shorter = str1.length > str2.length ? str2 : str1
+
+  if (longer.length === 0) return 1
+
+  const distance = levenshteinDistance(longer, shorter)
+  return (longer.length - distance) / longer.length
+}
+
+/**
+ * Share of the expected entries the actual record has with the same value
+ */
+export function recordMatch(
+  actual: Record<string, string | null>,
+  expected: Record<string, string>
+): number {
+  const keys = Object.keys(expected)
+  if (keys.length === 0) return 0
+
+  return keys.filter((key) => actual[key] === expected[key]).length / keys.length
+}
+
+/**
+ * Share of the expected class names the element still has
+ */
+export function classOverlap(actual: string, expected: string): number {
+  const elementClasses = new Set(actual.split(' '))
+  const targetClasses = new Set(expected.split(' '))
+  const intersection = [...targetClasses].filter((c) => elementClasses.has(c))
+  return intersection.length / targetClasses.size
+}
+
+/**
+ * Similarity of two ancestor chains (parent first) from their edit distance
+ * Renaming an ancestor's id or class costs less than replacing it with another tag
+ */
+export function pathSimilarity(actual: ParentInfo[], expected: ParentInfo[]): number {
+  const longest = Math.max(actual.length, expected.length)
+  if (longest === 0) return 1
+
+  return 1 - editDistance(actual, expected, ancestorDistance) / longest
+}
+
+/**
+ * How well the expected labels are found among the actual ones (fuzzy, best match each)
+ */
+export function labelSimilarity(actual: string[], expected: string[]): number {
+  if (expected.length === 0) return actual.length === 0 ? 1 : 0
+
+  const best = expected.map((label) =>
+    Math.max(0, ...actual.map((candidate) => stringSimilarity(candidate, label)))
+  )
+  return best.reduce((sum, similarity) => sum + similarity, 0) / expected.length
+}
+
+type Box = { x: number; y: number; width: number; height: number }
+
+/**
+ * Position similarity based on distance, plus a bonus when the size is about the same
+ */
+export function positionSimilarity(rect: Box, target: Box): number {
+  const maxDistance = 200 // pixels
+  const distance = Math.sqrt(Math.pow(rect.x - target.x, 2) + Math.pow(rect.y - target.y, 2))
+
+  const sizeMatch =
+    Math.abs(rect.width - target.width) < 50 && Math.abs(rect.height - target.height) < 50 ? 0.5 : 0
+
+  const positionMatch = Math.max(0, 1 - distance / maxDistance) * 0.5
+
+  return positionMatch + sizeMatch
+}
+
+/**
+ * Feature reading a plain attribute, compared exactly
+ */
+function attributeFeature(
+  name: string,
+  weight: number,
+  attribute: string,
+  key: 'ariaLabel' | 'placeholder' | 'name'
+): ScoringFeature<unknown> {
+  return defineFeature<string>({
+    name,
+    weight,
+    fromFingerprint: (target) => target[key] || undefined,
+    fromElement: (element) => element.getAttribute(attribute) || '',
+    compare: exactMatch,
+  })
+}
+
+export const BUILT_IN_FEATURES: ScoringFeature<unknown>[] = [
+  defineFeature({
+    name: 'text',
+    weight: 0.25,
+    fromFingerprint: (target) => target.text || undefined,
+    fromElement: (element) => element.textContent?.trim() || '',
+    compare: stringSimilarity,
+  }),
+  attributeFeature('ariaLabel', 0.2, 'aria-label', 'ariaLabel'),
+  // Form fields have no text of their own, their label plays that part
+  // (other elements' names come from aria-label or text, which are scored already)
+  defineFeature({
+    name: 'accessibleName',
+    weight: 0.2,
+    fromFingerprint: (target) =>
+      LABELABLE_TAGS.includes(target.tagName || '') ? target.accessibleName : undefined,
+    fromElement: (element) => getAccessibleName(element) || '',
+    compare: stringSimilarity,
+  }),
+  defineFeature({
+    name: 'dataAttributes',
+    weight: 0.15,
+    fromFingerprint: (target) =>
+      target.dataAttributes && Object.keys(target.dataAttributes).length > 0
+        ? target.dataAttributes
+        : undefined,
+    // recordMatch only looks up the fingerprint's keys
+    fromElement: (element) =>
+      Object.fromEntries(Array.from(element.attributes).map((attr) => [attr.name, attr.value])),
+    compare: recordMatch,
+  }),
+  attributeFeature('placeholder', 0.1, 'placeholder', 'placeholder'),
+  attributeFeature('name', 0.1, 'name', 'name'),
+  defineFeature({
+    name: 'className',
+    weight: 0.05,
+    fromFingerprint: (target) => target.className || undefined,
+    fromElement: (element) => element.className,
+    compare: classOverlap,
+  }),
+  defineFeature({
+    name: 'position',
+    weight: 0.1,
+    fromFingerprint: (target) => target.position || undefined,
+    fromElement: (element) => element.getBoundingClientRect(),
+    compare: positionSimilarity,
+  }),
+  defineFeature({
+    name: 'role',
+    weight: 0.05,
+    // Fingerprints captured before implicit roles were recorded only have the attribute
+    fromFingerprint: (target) => target.accessibleRole ?? target.role,
+    fromElement: (element) => getRole(element) || '',
+    compare: exactMatch,
+  }),
+  // Look-alikes are told apart by where they are: the login form's button, not the footer's
+  defineFeature({
+    name: 'ancestorPath',
+    weight: 0.15,
+    fromFingerprint: (target) => target.structure?.ancestors,
+    fromElement: (element) => extractStructure(element).ancestors,
+    compare: pathSimilarity,
+  }),
+  defineFeature({
+    name: 'neighbourLabels',
+    weight: 0.1,
+    fromFingerprint: (target) => target.structure?.neighbourLabels,
+    fromElement: (element) => extractStructure(element).neighbourLabels,
+    compare: labelSimilarity,
+  }),
+  defineFeature({
+    name: 'siblingIndex',
+    weight: 0.05,
+    fromFingerprint: (target) => target.structure?.siblingIndex,
+    fromElement: (element) => extractStructure(element).siblingIndex,
+    compare: exactMatch,
+  }),
+]
+
+export const BUILT_IN_FEATURE_NAMES = BUILT_IN_FEATURES.map((feature) => feature.name)
+
+/**
+ * Weighted similarity between a candidate element and a fingerprint
+ * The score is the weighted average of the features the fingerprint has values for,
+ * mapped to a probability when a calibration is loaded
+ */
+export class SimilarityScorer {
+  private features = new Map<string, ScoringFeature<unknown>>()
+  private weights: Record<string, number>
+  private calibratedWeights: Record<string, number> | null = null
+  private platt: ScoringCalibration['platt'] | null = null
+
+  constructor(weights: Record<string, number> = {}, features = BUILT_IN_FEATURES) {
+    features.forEach((feature) => this.register(feature))
+    this.weights = { ...weights }
+  }
+
+  /**
+   * Adds a feature, or replaces the feature with the same name
+   */
+  register(feature: ScoringFeature<unknown>): void {
+    this.features.set(feature.name, feature)
+  }
+
+  /**
+   * Removes a feature from the score, e.g. text for localized apps
+   */
+  unregister(name: string): void {
+    this.features.delete(name)
+  }
+
+  /**
+   * Overrides feature weights; 0 turns a feature off without unregistering it
+   */
+  setWeights(weights: Record<string, number>): void {
+    this.weights = { ...this.weights, ...weights }
+  }
+
+  /**
+   * Weights fitted along with the calibration; they replace the features' default weights
+   * A feature the calibration never saw, e.g. one registered later, keeps its own weight.
+   * Overridden weights still take precedence
+   */
+  setCalibratedWeights(weights: Record<string, number> | null): void {
+    this.calibratedWeights = weights
+  }
+
+  /**
+   * Maps weighted similarities to probabilities with a fitted logistic curve
+   */
+  setCalibration(platt: ScoringCalibration['platt'] | null): void {
+    this.platt = platt
+  }
+
+  getFeatureNames(): string[] {
+    return Array.from(this.features.keys())
+  }
+
+  /**
+   * Similarity from 0 to 1
+   */
+  score(element: HTMLElement, target: ElementAttributes): number {
+    return this.calibrate(
+      this.explain(element, target).reduce((sum, feature) => sum + feature.contribution, 0)
+    )
+  }
+
+  /**
+   * Applies the calibration to a weighted similarity (unchanged without one)
+   * 0 stays 0: a candidate sharing nothing with the fingerprint is never a match
+   */
+  calibrate(similarity: number): number {
+    if (!this.platt || similarity === 0) {
+      return similarity
+    }
+
+    return 1 / (1 + Math.exp(-(this.platt.slope * similarity + this.platt.intercept)))
+  }
+
+  /**
+   * Per-feature breakdown of the score: contributions add up to the score before calibration
+   */
+  explain(element: HTMLElement, target: ElementAttributes): FeatureScore[] {
+    const scored: Array<Omit<FeatureScore, 'contribution'>> = []
+
+    this.features.forEach((feature) => {
+      const weight = this.weights[feature.name] ?? this.defaultWeight(feature)
+      const expected = feature.fromFingerprint(target)
+      if (weight <= 0 || expected === undefined) {
+        return
+      }
+
+      scored.push({
+        feature: feature.name,
+        weight,
+        similarity: feature.compare(feature.fromElement(element), expected),
+      })
+    })
+
+    const totalWeight = scored.reduce((sum, feature) => sum + feature.weight, 0)
+
+    return scored.map((feature) => ({
+      ...feature,
+      contribution: totalWeight > 0 ? (feature.similarity * feature.weight) / totalWeight : 0,
+    }))
+  }
+
+  private defaultWeight(feature: ScoringFeature<unknown>): number {
+    return this.calibratedWeights?.[feature.name] ?? feature.weight
+  }
+}
+
+/**
+ * Edit distance between two sequences, with a substitution cost from 0 to 1
+ */
+function editDistance<T>(a: T[], b: T[], substitutionCost: (x: T, y: T) => number): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j - 1] + substitutionCost(a[i - 1], b[j - 1]),
+        current[j - 1] + 1,
+        previous[j] + 1
+      )
+    }
+    previous = current
+  }
+
+  return previous[b.length]
+}
+
+function ancestorDistance(a: ParentInfo, b: ParentInfo): number {
+  if (a.tagName !== b.tagName) return 1
+
+  return (a.id === b.id ? 0 : 0.25) + (a.className === b.className ? 0 : 0.25)
+}
+
+/**
+ * Levenshtein distance algorithm
+ */
+function levenshteinDistance(str1: string, str2: string): number {
+  const matrix: number[][] = []
+
+  for (let i = 0; i <= str2.length; i++) {
+    matrix[i] = [i]
+  }
+
+  for (let j = 0; j <= str1.length; j++) {
+    matrix[0][j] = j
+  }
+
+  for (let i = 1; i <= str2.length; i++) {
+    for (let j = 1; j <= str1.length; j++) {
+      if (str2.charAt(i - 1) === str1.charAt(j - 1)) {
+        matrix[i][j] = matrix[i - 1][j - 1]
+      } else {
+        matrix[i][j] = Math.min(
+          matrix[i - 1][j - 1] + 1,
+          matrix[i][j - 1] + 1,
+          matrix[i - 1][j] + 1
+        )
+      }
+    }
+  }
+
+  return matrix[str2.length][str1.length]
+}
@@ -14,13 +14,100 @@ export interface ElementFingerprint {
   lastSeen?: Date
   /** Number of times this element was healed */
   healCount: number
+  /** Selectors of the open shadow hosts the element lives in, outermost first */
+  shadowHosts?: string[]
+  /** Locators of the iframes the element lives in, outermost first */
+  framePath?: string[]
+  /** Position in the matched list, for items fingerprinted by a collection-mode cy.heal() */
+  index?: number
+  /** Number of the current version, 1 for the first capture */
+  version?: number
+  /** Promoted versions, oldest first and the current one last (see fingerprintHistorySize) */
+  history?: FingerprintVersion[]
+  /** A changed capture waiting for enough consistent observations to become the current version */
+  candidate?: FingerprintCandidate
 }
 
+/**
+ * One promoted capture of an element
+ */
+export interface FingerprintVersion {
+  version: number
+  capturedAt: Date
+  /** Run that captured it; absent for fingerprints stored before versions were recorded */
+  runId?: string
+  attributes: ElementAttributes
+  alternativeLocators: LocatorStrategy[]
+  /** Version this one restored, for versions created by a rollback */
+  restoredFrom?: number
+}
+
+/**
+ * A capture that differs from the current version, observed consistently so far
+ */
+export interface FingerprintCandidate {
+  /** First observation */
+  capturedAt: Date
+  runId: string
+  attributes: ElementAttributes
+  alternativeLocators: LocatorStrategy[]
+  observations: number
+}
+
+/**
+ * DOM subtree the matcher searches in (AUT document, an element or an open shadow root)
+ */
+export type SearchRoot = Document | Element | ShadowRoot
+
 export interface LocatorStrategy {
   type: LocatorType
   value: string
   priority: number
   confidence: number
+  /** Structured query for 'text' strategies; `value` is only a human-readable form */
+  text?: TextLocator
+  /** Structured query for 'label' strategies: the field's tag and label text */
+  label?: TextLocator
+  /** Structured query for 'role' strategies, like Testing Library's getByRole */
+  role?: RoleLocator
+  /** Whether the CSS or XPath locator matched only this element when it was captured */
+  unique?: boolean
+}
+
+/**
+ * Text comparison modes, from strictest to loosest
+ */
+export type TextMatchMode = 'exact' | 'trimmed' | 'case-insensitive' | 'fuzzy'
+
+export interface TextLocator {
+  tagName: string
+  text: string
+  /** Loosest mode the matcher may fall back to */
+  mode: TextMatchMode
+}
+
+/**
+ * ARIA role, accessible name and state of an element
+ * Candidates in another state (e.g. a checkbox ticked since) still match, but rank lower
+ */
+export interface RoleLocator {
+  role: string
+  name: string
+  /** Loosest mode the matcher may fall back to when comparing names */
+  mode: TextMatchMode
+  checked?: boolean
+  disabled?: boolean
+}
+
+/**
+ * Outcome of trying one alternative locator while healing
+ */
+export interface LocatorAttempt {
+  type: LocatorType
+  value: string
+  outcome: 'unique' | 'multiple' | 'none' | 'error'
+  matches: number
+  error?: string
 }
 
 export type LocatorType =
@@ -36,6 +123,12 @@ export type LocatorType =
   | 'placeholder'
   | 'title'
   | 'role'
+  | 'label'
+
+/**
+ * How an element was found while healing: a locator strategy or attribute similarity
+ */
+export type HealingStrategy = LocatorType | 'similarity'
 
 export interface ElementAttributes {
   tagName?: string
@@ -47,7 +140,15 @@ export interface ElementAttributes {
   placeholder?: string
   title?: string
   ariaLabel?: string
+  /** Name from aria-labelledby, aria-label, a <label>, content, title or nearby text */
+  accessibleName?: string
+  /** Form fields only: text of their <label for>, wrapping <label> or nearby text */
+  labelText?: string
   role?: string
+  /** Explicit role, or the implicit role of the tag (button, textbox, link, …) */
+  accessibleRole?: string
+  checked?: boolean
+  disabled?: boolean
   type?: string
   href?: string
   src?: string
@@ -55,6 +156,8 @@ export interface ElementAttributes {
   dataAttributes?: Record<string, string>
   position?: ElementPosition
   parentInfo?: ParentInfo
+  /** Where the element sits in the page; absent in fingerprints captured before it was recorded */
+  structure?: StructuralContext
 }
 
 export interface ElementPosition {
@@ -70,22 +173,187 @@ export interface ParentInfo {
   id?: string
 }
 
+/**
+ * Surroundings of an element, compared when its own attributes look alike
+ */
+export interface StructuralContext {
+  /** Ancestors from the parent up to the nearest landmark (form, main, nav, section, …) */
+  ancestors: ParentInfo[]
+  /** Position among the parent's children with the same tag */
+  siblingIndex: number
+  /** Short texts of the previous and next siblings, e.g. a field's label */
+  neighbourLabels: string[]
+}
+
 export interface HealingEvent {
   timestamp: Date
   elementName: string
   originalLocator: string
   healedLocator: string
-  strategy: LocatorType
+  strategy: HealingStrategy
+  confidence: number
+  primaryMatch: PrimaryMatchCase
+  /** Elements the primary locator matched when healing started */
+  primaryMatches: number
+  /** Frame locators the element was found through, outermost first (healed ones as healed) */
+  frame?: string[]
+  /** Line of the cy.heal() call in testFile, filled in on the Node side when it can be found */
+  line?: number
+  /** Similarity breakdown of the healed element, when it was similarity-scored */
+  breakdown?: FeatureScore[]
+  /** Another candidate scored within the ambiguity margin (only kept with ambiguousHeals: 'flag') */
+  ambiguous?: boolean
+  /** Below autoAcceptThreshold: the test went on, but a human has to review the heal */
+  pendingReview?: boolean
+  /** Spec code the locator is written in; absent for events recorded before it was, read as heal */
+  source?: HealSource
+  /** Page object element, e.g. `LoginPage.loginButton`, for heals of a page accessor */
+  pageElement?: string
+  testFile: string
+  testName: string
+}
+
+/**
+ * Where a healed locator is written in the spec
+ * - heal: a cy.heal() call
+ * - page: a page object definition, used through its accessor
+ * - get, contains: a plain cy.get() or cy.contains() call healed through auto-capture
+ * - frame: the `frame` option of a cy.heal() call or page element
+ */
+export type HealSource = 'heal' | 'page' | 'get' | 'contains' | 'frame'
+
+export type HealReviewStatus = 'pending' | 'accepted' | 'rejected'
+
+/**
+ * A heal below autoAcceptThreshold, queued for a human decision
+ * Decisions apply to the candidate element, whichever locator found it
+ */
+export interface HealReview {
+  /** Short id to accept or reject the heal with, assigned when it is queued */
+  id: string
+  elementName: string
+  /** describeElement() of the healed element */
+  candidate: string
+  /** elementPath() of the healed element, which tells look-alike candidates apart */
+  candidatePath: string
+  originalLocator: string
+  healedLocator: string
+  strategy: HealingStrategy
   confidence: number
   testFile: string
   testName: string
+  firstSeen: Date
+  lastSeen: Date
+  /** Heals to this candidate since it was queued */
+  occurrences: number
+  status: HealReviewStatus
+  decidedAt?: Date
+  /** Capture of the healed element, which becomes the element's fingerprint once accepted */
+  fingerprint: ElementFingerprint
+}
+
+/**
+ * Before/after view of one heal, for the HTML report
+ */
+export interface HealSnapshot {
+  event: HealingEvent
+  /** Attributes stored in the fingerprint before the heal */
+  fingerprint: ElementAttributes
+  /** Attributes of the healed element when it was healed */
+  current: ElementAttributes
+  /** Element screenshot (absolute path), taken when the element was healed */
+  screenshotPath?: string
+}
+
+/**
+ * Why an element had to be healed
+ * - broken: the primary locator matched nothing
+ * - disambiguated: it matched several elements and the fingerprint picked one of them
+ * - collection: an item of a collection-mode cy.heal() matched nothing
+ */
+export type PrimaryMatchCase = 'broken' | 'disambiguated' | 'collection'
+
+/**
+ * A scored element considered while healing
+ */
+export interface HealingCandidate {
+  description: string
+  confidence: number
+  strategy: HealingStrategy
+  /** How each similarity feature contributed to the confidence (similarity-scored candidates) */
+  breakdown?: FeatureScore[]
+}
+
+/**
+ * One feature's part in a similarity score
+ */
+export interface FeatureScore {
+  feature: string
+  weight: number
+  /** How close the candidate is to the fingerprint on this feature, from 0 to 1 */
+  similarity: number
+  /** similarity × weight, normalized by the weights of the features that applied */
+  contribution: number
+}
+
+/**
+ * - healed: a candidate reached the confidence threshold
+ * - below-threshold: the best candidate scored too low
+ * - no-fingerprint: the element was never registered
+ * - no-candidate: nothing in the page resembled the fingerprint
+ * - ambiguous: the runner-up scored within the ambiguity margin of the best candidate
+ */
+export type HealingOutcome =
+  'healed' | 'below-threshold' | 'no-fingerprint' | 'no-candidate' | 'ambiguous'
+
+/**
+ * One healing attempt, successful or not
+ */
+export interface HealingAttempt {
+  timestamp: Date
+  elementName: string
+  originalLocator: string
+  outcome: HealingOutcome
+  /** Strategy of the best candidate, if any */
+  strategy?: HealingStrategy
+  bestConfidence: number
+  threshold: number
+  /** Candidates that scored below the best one */
+  runnerUps: HealingCandidate[]
+  testFile: string
+  testName: string
+}
+
+/**
+ * Success statistics for one element or one strategy
+ */
+export interface HealingStats {
+  attempts: number
+  healed: number
+  successRate: number
+  /** Lowest best-candidate confidence seen; close to the threshold means close to unhealable */
+  lowestConfidence: number
+  averageConfidence: number
+}
+
+/**
+ * Where a heal was requested from
+ */
+export interface HealingContext {
+  testFile: string
+  testName: string
+  /** Defaults to heal */
+  source?: HealSource
+  pageElement?: string
 }
 
 export interface HealingReport {
   generatedAt: Date
   totalTests: number
   totalHealingEvents: number
+  totalHealingAttempts: number
   events: HealingEvent[]
+  attempts: HealingAttempt[]
   summary: HealingSummary
 }
 
@@ -93,14 +361,201 @@ export interface HealingSummary {
   byStrategy: Record<LocatorType, number>
   byElement: Record<string, number>
   averageConfidence: number
+  /** Healed attempts / all attempts */
   successRate: number
+  successByElement: Record<string, HealingStats>
+  successByStrategy: Record<string, HealingStats>
 }
 
 export interface SelfHealingConfig {
   enabled: boolean
   confidenceThreshold: number
+  /** Alternative locators tried in priority order; the default covers every strategy */
   maxAlternatives: number
   reportPath: string
   autoUpdateLocators: boolean
+  /** Milliseconds to keep polling the primary locator before falling back to healing */
+  healingGracePeriod: number
+  /** How accepted heals are written back to spec files when autoUpdateLocators is on */
+  autoUpdateMode: AutoUpdateMode
+  /** Patch file written in 'patch' mode (relative to the project root) */
+  autoUpdatePatchPath: string
+  /** JSON file (relative to the project root) that persists fingerprints between runs */
+  storePath: string
+  /** Healing events and attempts kept in the store, newest first (each list on its own) */
+  storeHistoryLimit: number
+  /** Self-contained HTML report written at the end of the run (relative to the project root) */
+  htmlReportPath: string
+  /** JUnit XML report of the run's heals, for CI test dashboards */
+  junitReportPath: string
+  /** SARIF log of the run's heals, for code scanning annotations */
+  sarifReportPath: string
+  /** Minimum confidence lead the best candidate needs over the runner-up */
+  ambiguityMargin: number
+  /** What to do with heals whose lead is below ambiguityMargin */
+  ambiguousHeals: AmbiguityPolicy
+  /** Limits on healing per run, spec and element; unset limits aren't checked */
+  healingBudget: HealingBudget
+  /** Fail specs that breach the healing budget instead of only reporting the breach */
+  strictMode: boolean
+  /** Weight overrides for the built-in similarity features, e.g. `{ text: 0 }` */
+  scoringWeights: Record<string, number>
+  /** Weights fitted by `npm run healing:calibrate`, loaded when the file exists */
+  calibrationPath: string
+  /** Fingerprint versions kept per element, the current one included */
+  fingerprintHistorySize: number
+  /** Consistent captures a changed element needs before its fingerprint is replaced */
+  promoteAfterObservations: number
+  /** Heals below this confidence (and above confidenceThreshold) are queued for review */
+  autoAcceptThreshold: number
+  /** Heals awaiting review and the decisions taken on them, next to the locator store */
+  reviewQueuePath: string
+  /** Fingerprint and heal plain cy.get() and cy.contains() calls; off unless enabled */
+  autoCapture: AutoCaptureConfig
+}
+
+/**
+ * Per-call overrides for cy.heal()
+ */
+export interface HealOptions {
+  /** Retry timeout in ms (defaults to defaultCommandTimeout) */
+  timeout?: number
+  /** Minimum confidence to accept a heal for this call */
+  confidenceThreshold?: number
+  /** Only these strategies may be used to heal this element */
+  strategies?: HealingStrategy[]
+  /** Set to false to fail instead of healing when the primary locator breaks */
+  enabled?: boolean
+  /** Minimum lead over the runner-up candidate for this call */
+  ambiguityMargin?: number
+  /** Yield every element the locator matches, fingerprinting and healing each item */
+  collection?: boolean
+  /** Same-origin iframe(s) to look in: one locator, or a chain from outermost to innermost */
+  frame?: string | string[]
+}
+
+/**
+ * Options for cy.registerForHealing()
+ */
+export interface RegisterOptions {
+  /** Fingerprint every matched element as `name[index]` for collection-mode cy.heal() */
+  collection?: boolean
+  /** Same-origin iframe(s) the element lives in, as for cy.heal() */
+  frame?: string | string[]
+}
+
+/**
+ * - reject: fail the heal and list the competing elements
+ * - flag: accept the best candidate but mark the healing event as ambiguous
+ */
+export type AmbiguityPolicy = 'reject' | 'flag'
+
+/**
+ * How much healing a run tolerates before its locators are considered broken
+ */
+export interface HealingBudget {
+  /** Heals allowed in the whole run */
+  maxHeals?: number
+  /** Heals allowed in a single spec */
+  maxHealsPerSpec?: number
+  /** Heals of the same element allowed in the whole run */
+  maxHealsPerElement?: number
+  /** Heals below this confidence count against maxLowConfidenceHeals */
+  confidenceFloor?: number
+  /** Heals below confidenceFloor allowed in the whole run (defaults to 0) */
+  maxLowConfidenceHeals?: number
+  /**
+   * Strategies too weak to trust: every heal that uses one is a breach,
+   * except disambiguations of a primary locator that still matched
+   */
+  forbiddenStrategies?: HealingStrategy[]
+}
+
+/**
+ * Which plain cy.get() and cy.contains() calls are fingerprinted and healed
+ * Lists hold regular expressions, matched against the selector, or against
+ * `contains(<selector>, <content>)` for cy.contains()
+ */
+export interface AutoCaptureConfig {
+  /** Overwrite cy.get() and cy.contains() (read once, when the support file loads) */
+  enabled?: boolean
+  /** Only calls matching one of these are captured; an empty or missing list allows all */
+  allow?: string[]
+  /** Calls matching one of these are never captured, even when allowed */
+  deny?: string[]
+}
+
+export type HealingBudgetRule =
+  | 'maxHeals'
+  | 'maxHealsPerSpec'
+  | 'maxHealsPerElement'
+  | 'maxLowConfidenceHeals'
+  | 'forbiddenStrategies'
+
+/**
+ * One healing budget exceeded by the run
+ */
+export interface BudgetBreach {
+  /** Same budget, spec and element give the same id, however far the count grows */
+  id: string
+  rule: HealingBudgetRule
+  /** Spec the breach belongs to; absent for run-wide budgets */
+  testFile?: string
+  elementName?: string
+  limit: number
+  actual: number
+  message: string
 }
 
+/**
+ * Matcher weights fitted from the healing history, so confidences are probabilities
+ */
+export interface ScoringCalibration {
+  generatedAt: string
+  /** Candidates the weights were fitted on */
+  samples: number
+  /** Similarity feature weights, summing to 1; features without one are off */
+  featureWeights: Record<string, number>
+  /** Logistic mapping of the weighted similarity to the probability of a correct heal */
+  platt: { slope: number; intercept: number }
+  /** Observed precision of each strategy's heals, replacing the built-in locator confidences */
+  strategyConfidence: Partial<Record<HealingStrategy, number>>
+}
+
+/**
+ * Human verdict on a heal, for calibration
+ */
+export interface HealLabel {
+  elementName: string
+  healedLocator: string
+  correct: boolean
+}
+
+/**
+ * - apply: rewrite the spec files in place at the end of the run
+ * - patch: write a reviewable unified diff, leave spec files untouched
+ * - dry-run: only list the proposed edits in the terminal
+ */
+export type AutoUpdateMode = 'apply' | 'patch' | 'dry-run'
+
+/**
+ * Request to replace a broken cy.heal() locator in a spec file
+ */
+export interface LocatorUpdate {
+  /** Spec path relative to the project root (Cypress.spec.relative) */
+  testFile: string
+  elementName: string
+  originalLocator: string
+  updatedLocator: string
+  confidence: number
+}
+
+/**
+ * Serializable contents of the locator store, as read from and written to disk
+ */
+export interface LocatorStoreSnapshot {
+  fingerprints: ElementFingerprint[]
+  healingEvents: HealingEvent[]
+  /** Absent in stores written before attempts were recorded */
+  healingAttempts?: HealingAttempt[]
+}
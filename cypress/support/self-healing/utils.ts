@@ -0,0 +1,22 @@
+/**
+ * Small helpers shared by the healing budget and the reports
+ */
+
+/**
+ * Groups items by key, keeping their order
+ */
+export function groupBy<T>(items: T[], keyOf: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>()
+  items.forEach((item) => {
+    const key = keyOf(item)
+    groups.set(key, [...(groups.get(key) || []), item])
+  })
+  return groups
+}
+
+/**
+ * Formats a ratio as a whole percentage, e.g. 0.856 → `86%`
+ */
+export function formatPercent(ratio: number): string {
+  return `${(ratio * 100).toFixed(0)}%`
+}
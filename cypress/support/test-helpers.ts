@@ -0,0 +1,34 @@
+/**
+ * Builders shared by the unit specs
+ */
+
+import { HealingEvent } from './self-healing'
+
+/**
+ * A data-testid heal of the login button, with the given fields changed
+ */
+export function healingEvent(overrides: Partial<HealingEvent>): HealingEvent {
+  return {
+    timestamp: new Date(),
+    elementName: 'loginButton',
+    originalLocator: '#submit-btn',
+    healedLocator: '[data-testid="login-button"]',
+    strategy: 'data-testid',
+    confidence: 0.95,
+    primaryMatch: 'broken',
+    primaryMatches: 0,
+    testFile: 'cypress/e2e/login.cy.ts',
+    testName: 'logs in',
+    ...overrides,
+  }
+}
+
+/**
+ * A detached document standing in for the app under test, so specs never match elements
+ * of the spec runner's own document
+ */
+export function createFakeRoot(html: string): Document {
+  const doc = document.implementation.createHTMLDocument('fake-aut')
+  doc.body.innerHTML = html
+  return doc
+}